@@ -0,0 +1,145 @@
+// Local stand-in for the WhatsApp gateway so messaging can be developed and
+// tested offline. It speaks the same API as the real gateway:
+//
+//   GET  /status          -> { loggedIn }
+//   POST /send-whatsapp   -> { success, id }   body: { phone, message }
+//   socket.io events      -> qr, ready, disconnected, auth_failure
+//
+// Every request must send the API key (x-api-key header, or `auth.apiKey` on
+// the socket). Extra endpoints drive the session by hand:
+//
+//   POST /mock/scan          pretend the QR code was scanned
+//   POST /mock/disconnect    drop the WhatsApp session
+//   POST /mock/auth-failure  reject the session
+//   POST /mock/fail-next     make the next send fail
+//   GET  /mock/messages      list everything "sent" so far
+//
+// Usage: npm run mock:whatsapp  (PORT and MOCK_WHATSAPP_API_KEY env vars
+// override the defaults of 3001 and "dev-key")
+import { createServer } from "http";
+import express from "express";
+import { Server } from "socket.io";
+import QRCode from "qrcode";
+
+const PORT = Number(process.env.PORT || 3001);
+const API_KEY = process.env.MOCK_WHATSAPP_API_KEY || "dev-key";
+const AUTO_SCAN_MS = 8000;
+
+const app = express();
+const server = createServer(app);
+const io = new Server(server, { cors: { origin: "*" } });
+
+let loggedIn = false;
+let failNext = false;
+let autoScanTimer = null;
+const messages = [];
+
+app.use(express.json());
+app.use((req, res, next) => {
+  res.header("Access-Control-Allow-Origin", "*");
+  res.header("Access-Control-Allow-Headers", "Content-Type, x-api-key");
+  res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  if (req.method === "OPTIONS") return res.sendStatus(204);
+  next();
+});
+
+const requireApiKey = (req, res, next) => {
+  if (req.header("x-api-key") !== API_KEY) {
+    return res.status(401).json({ success: false, error: "Invalid API key" });
+  }
+  next();
+};
+
+const setLoggedIn = (value) => {
+  loggedIn = value;
+  clearTimeout(autoScanTimer);
+};
+
+// A fresh QR code is sent to every client while logged out; it is "scanned"
+// automatically after a few seconds so the happy path needs no clicks
+const emitQr = async () => {
+  const qr = await QRCode.toDataURL(`mock-whatsapp-session-${Date.now()}`);
+  io.emit("qr", qr);
+  clearTimeout(autoScanTimer);
+  autoScanTimer = setTimeout(() => {
+    setLoggedIn(true);
+    io.emit("ready");
+  }, AUTO_SCAN_MS);
+};
+
+io.use((socket, next) => {
+  if (socket.handshake.auth?.apiKey !== API_KEY) {
+    return next(new Error("Invalid API key"));
+  }
+  next();
+});
+
+io.on("connection", (socket) => {
+  console.log(`client connected (${socket.id})`);
+  if (loggedIn) socket.emit("ready");
+  else emitQr();
+});
+
+app.get("/status", requireApiKey, (req, res) => {
+  res.json({ loggedIn });
+});
+
+app.post("/send-whatsapp", requireApiKey, (req, res) => {
+  const { phone, message } = req.body ?? {};
+  if (!phone || !message) {
+    return res
+      .status(400)
+      .json({ success: false, error: "phone and message are required" });
+  }
+  if (!loggedIn) {
+    return res.json({ success: false, error: "WhatsApp is not logged in" });
+  }
+  if (failNext) {
+    failNext = false;
+    return res.json({ success: false, error: "Simulated send failure" });
+  }
+
+  const sent = {
+    id: `mock-${messages.length + 1}`,
+    phone,
+    message,
+    sentAt: new Date().toISOString(),
+  };
+  messages.push(sent);
+  console.log(`-> ${phone}: ${message}`);
+  res.json({ success: true, id: sent.id });
+});
+
+app.post("/mock/scan", (req, res) => {
+  setLoggedIn(true);
+  io.emit("ready");
+  res.json({ loggedIn });
+});
+
+app.post("/mock/disconnect", (req, res) => {
+  setLoggedIn(false);
+  io.emit("disconnected", "Mock disconnect");
+  emitQr();
+  res.json({ loggedIn });
+});
+
+app.post("/mock/auth-failure", (req, res) => {
+  setLoggedIn(false);
+  io.emit("auth_failure", "Mock authentication failure");
+  emitQr();
+  res.json({ loggedIn });
+});
+
+app.post("/mock/fail-next", (req, res) => {
+  failNext = true;
+  res.json({ failNext });
+});
+
+app.get("/mock/messages", (req, res) => {
+  res.json(messages);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock WhatsApp gateway on http://localhost:${PORT}`);
+  console.log(`API key: ${API_KEY}`);
+});
@@ -29,6 +29,8 @@ export const membershipPlans = pgTable("membership_plans", {
   durationMonths: integer("duration_months").notNull(),
   price: real("price").notNull(),
   description: text("description"),
+  // Most days a member may freeze per term; no limit when unset
+  maxFreezeDays: integer("max_freeze_days"),
   gymId: text("gym_id")
     .notNull()
     .references(() => gyms.id, { onDelete: "cascade" }),
@@ -48,6 +50,9 @@ export const members = pgTable("members", {
   isActive: boolean("is_active").default(true).notNull(),
   isPaid: boolean("is_paid").default(true).notNull(),
   membershipPlanId: text("membership_plan_id").notNull(),
+  // The member's current or upcoming freeze, if any
+  frozenFrom: date("frozen_from"),
+  frozenUntil: date("frozen_until"),
   gymId: text("gym_id")
     .notNull()
     .references(() => gyms.id, { onDelete: "cascade" }),
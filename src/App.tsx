@@ -4,17 +4,29 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/hooks/use-auth";
+import { useMessageQueue } from "@/hooks/use-message-queue";
+import { useReminderScheduler } from "@/hooks/use-reminders";
+import { useBirthdayScheduler } from "@/hooks/use-birthdays";
 import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import DashboardPage from "@/pages/dashboard-page";
 import MembershipPage from "@/pages/membership-page";
 import AddMemberPage from "@/pages/add-member-page";
+import ImportMembersPage from "@/pages/import-members-page";
+import ReportsPage from "@/pages/reports-page";
+import RetentionPage from "@/pages/retention-page";
 import FestivalPage from "@/pages/festival";
 import WhatsAppLogin from "./pages/whatsapp";
 import RegisterForm from "./components/auth/register-form";
 import ProductCatalogPage from "@/pages/product-catalog-page";
 import TrainerManagementPage from "@/pages/trainer-management-page";
+import CheckInPage from "@/pages/check-in-page";
+import KioskPage from "@/pages/kiosk-page";
+import MessagingSettingsPage from "@/pages/messaging-settings-page";
+import MessageLogPage from "@/pages/message-log-page";
+import MessageTemplatesPage from "@/pages/message-templates-page";
+import RemindersPage from "@/pages/reminders-page";
 
 function Router() {
   return (
@@ -23,25 +35,58 @@ function Router() {
       <ProtectedRoute path="/" component={DashboardPage} />
       <ProtectedRoute path="/membership" component={MembershipPage} />
       <ProtectedRoute path="/add-member" component={AddMemberPage} />
+      <ProtectedRoute path="/import-members" component={ImportMembersPage} />
+      <ProtectedRoute path="/check-in" component={CheckInPage} />
+      <ProtectedRoute
+        path="/kiosk"
+        component={KioskPage}
+        access="canEditAttendance"
+      />
       <ProtectedRoute path="/products" component={ProductCatalogPage} />
+      <ProtectedRoute path="/reports" component={ReportsPage} />
+      <ProtectedRoute path="/retention" component={RetentionPage} />
       <ProtectedRoute
         path="/trainer-management"
         component={TrainerManagementPage}
       />
       <ProtectedRoute path="/festival" component={FestivalPage} />
       <ProtectedRoute path="/whatsapp" component={() => <WhatsAppLogin />} />
-      <ProtectedRoute path="/trainer" component={() => <RegisterForm />} />
+      <ProtectedRoute path="/messages" component={MessageLogPage} />
+      <ProtectedRoute
+        path="/messages/templates"
+        component={MessageTemplatesPage}
+      />
+      <ProtectedRoute path="/messages/reminders" component={RemindersPage} />
+      <ProtectedRoute
+        path="/settings/messaging"
+        component={MessagingSettingsPage}
+      />
+      <ProtectedRoute
+        path="/trainer"
+        component={() => <RegisterForm />}
+        access="admin"
+      />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// Runs for the whole session so reminders and birthday greetings are queued
+// and queued messages go out from any page
+function MessageQueue() {
+  useReminderScheduler();
+  useBirthdayScheduler();
+  useMessageQueue();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
         <TooltipProvider>
           <Toaster />
+          <MessageQueue />
           <Router />
         </TooltipProvider>
       </AuthProvider>
@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { CameraOff } from "lucide-react";
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+  paused?: boolean;
+}
+
+// Reads QR codes from the device camera. Frames are copied to an off-screen
+// canvas and decoded with jsQR, so it works in any browser with getUserMedia.
+export default function QrScanner({ onScan, paused = false }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  const [error, setError] = useState<string | null>(null);
+
+  onScanRef.current = onScan;
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let cancelled = false;
+
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (
+        !pausedRef.current &&
+        video &&
+        canvas &&
+        video.readyState === video.HAVE_ENOUGH_DATA
+      ) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, {
+            inversionAttempts: "dontInvert",
+          });
+          if (code?.data) onScanRef.current(code.data);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "user" },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        frame = requestAnimationFrame(tick);
+      } catch (err) {
+        console.error("Error starting camera:", err);
+        setError("Camera unavailable. Allow camera access and reload.");
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 rounded-lg bg-gray-100 p-10 text-gray-500">
+        <CameraOff className="h-10 w-10" />
+        <p className="text-sm">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-lg bg-black">
+      <video ref={videoRef} className="w-full -scale-x-100" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+      <div className="pointer-events-none absolute inset-0 m-auto h-2/3 aspect-square rounded-lg border-4 border-white/70" />
+    </div>
+  );
+}
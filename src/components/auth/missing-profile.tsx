@@ -0,0 +1,43 @@
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Loader2, LogOut } from "lucide-react";
+
+interface MissingProfileProps {
+  message: string;
+}
+
+export default function MissingProfile({ message }: MissingProfileProps) {
+  const { logoutMutation } = useAuth();
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2">
+            <AlertCircle className="h-8 w-8 text-red-500" />
+            <h1 className="text-2xl font-bold text-gray-900">
+              Profile Not Found
+            </h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">{message}</p>
+
+          <Button
+            className="mt-6 w-full"
+            variant="outline"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+          >
+            {logoutMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <LogOut className="mr-2 h-4 w-4" />
+            )}
+            Sign in with another account
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { format, isToday } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { UpcomingBirthday } from "@/lib/birthdays";
+import { Member } from "@shared/schema";
+import { Cake } from "lucide-react";
+
+interface BirthdaysThisWeekProps {
+  birthdays: UpcomingBirthday[];
+  onViewMember: (member: Member) => void;
+}
+
+export default function BirthdaysThisWeek({
+  birthdays,
+  onViewMember,
+}: BirthdaysThisWeekProps) {
+  if (birthdays.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="text-xs md:text-base">
+      <CardHeader className="flex flex-row items-center justify-between p-3 md:p-6">
+        <CardTitle className="text-base md:text-xl">
+          Birthdays This Week
+        </CardTitle>
+        <span className="text-xs md:text-sm text-gray-500">
+          Members with a birthday in the next 7 days
+        </span>
+      </CardHeader>
+      <CardContent className="p-3 md:p-6 pt-0">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-2 md:gap-4">
+          {birthdays.map(({ member, date, age }) => (
+            <div
+              key={member.id}
+              className="flex items-center gap-3 border border-gray-200 rounded-lg p-2 md:p-4"
+            >
+              <div className="h-10 w-10 rounded-full bg-pink-100 flex items-center justify-center">
+                <Cake className="h-5 w-5 text-pink-600" />
+              </div>
+              <div className="flex-1">
+                <h3 className="font-medium text-gray-900 text-xs md:text-base">
+                  {member.name}
+                </h3>
+                <p className="text-xs text-gray-500">
+                  {format(date, "EEE, MMM d")} · turns {age}
+                </p>
+              </div>
+              {isToday(date) && <Badge>Today</Badge>}
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs"
+                onClick={() => onViewMember(member)}
+              >
+                View
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
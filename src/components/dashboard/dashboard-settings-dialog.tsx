@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { saveDashboardSettings } from "@/lib/firestore";
+import {
+  DASHBOARD_WIDGETS,
+  DASHBOARD_WIDGET_IDS,
+  DEFAULT_DASHBOARD_SETTINGS,
+  DashboardSettings,
+  DashboardWidget,
+  MAX_EXPIRING_DAYS,
+} from "@/lib/dashboard";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ArrowDown, ArrowUp, Loader2 } from "lucide-react";
+
+interface DashboardSettingsDialogProps {
+  settings: DashboardSettings;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Shown widgets first in their saved order, then the hidden ones
+const toWidgetList = (settings: DashboardSettings) => [
+  ...settings.widgets.map((id) => ({ id, visible: true })),
+  ...DASHBOARD_WIDGET_IDS.filter((id) => !settings.widgets.includes(id)).map(
+    (id) => ({ id, visible: false })
+  ),
+];
+
+export default function DashboardSettingsDialog({
+  settings,
+  open,
+  onOpenChange,
+}: DashboardSettingsDialogProps) {
+  const { toast } = useToast();
+  const [widgets, setWidgets] = useState<
+    { id: DashboardWidget; visible: boolean }[]
+  >([]);
+  const [expiringDays, setExpiringDays] = useState(settings.expiringDays);
+
+  useEffect(() => {
+    if (!open) return;
+    setWidgets(toWidgetList(settings));
+    setExpiringDays(settings.expiringDays);
+  }, [open, settings]);
+
+  const isValid =
+    Number.isInteger(expiringDays) &&
+    expiringDays >= 1 &&
+    expiringDays <= MAX_EXPIRING_DAYS;
+
+  const move = (index: number, offset: -1 | 1) => {
+    const next = [...widgets];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setWidgets(next);
+  };
+
+  const toggle = (index: number, visible: boolean) =>
+    setWidgets(
+      widgets.map((widget, i) =>
+        i === index ? { ...widget, visible } : widget
+      )
+    );
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      saveDashboardSettings({
+        widgets: widgets
+          .filter((widget) => widget.visible)
+          .map((widget) => widget.id),
+        expiringDays,
+      }),
+    onSuccess: () => {
+      toast({
+        title: "Dashboard updated",
+        description: "Your dashboard layout has been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-settings"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save dashboard",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Customize Dashboard</DialogTitle>
+          <DialogDescription>
+            Choose which cards to show and the order they appear in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {widgets.map((widget, index) => (
+            <div
+              key={widget.id}
+              className="flex items-center justify-between rounded-md border px-3 py-2"
+            >
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={widget.visible}
+                  onCheckedChange={(checked) => toggle(index, checked)}
+                  aria-label={`Show ${DASHBOARD_WIDGETS[widget.id].title}`}
+                />
+                <span
+                  className={
+                    widget.visible ? "text-sm" : "text-sm text-muted-foreground"
+                  }
+                >
+                  {DASHBOARD_WIDGETS[widget.id].title}
+                </span>
+              </div>
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={index === widgets.length - 1}
+                  onClick={() => move(index, 1)}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="expiring-days">"Expiring soon" window (days)</Label>
+          <Input
+            id="expiring-days"
+            type="number"
+            min={1}
+            max={MAX_EXPIRING_DAYS}
+            value={expiringDays}
+            onChange={(e) => setExpiringDays(Number(e.target.value))}
+            className="w-24"
+          />
+          {!isValid && (
+            <p className="text-sm font-medium text-destructive">
+              Enter a whole number from 1 to {MAX_EXPIRING_DAYS}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setWidgets(toWidgetList(DEFAULT_DASHBOARD_SETTINGS));
+              setExpiringDays(DEFAULT_DASHBOARD_SETTINGS.expiringDays);
+            }}
+          >
+            Reset to Default
+          </Button>
+          <Button
+            disabled={!isValid || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            {saveMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,12 +5,16 @@ import { format, differenceInDays } from "date-fns";
 
 interface ExpiringMembersProps {
   members: Member[];
+  days: number;
   onViewMember: (member: Member) => void;
+  onRenewMember?: (member: Member) => void;
 }
 
 export default function ExpiringMembers({
   members,
+  days,
   onViewMember,
+  onRenewMember,
 }: ExpiringMembersProps) {
   const getDaysUntilExpiration = (nextBillDate: string) => {
     const today = new Date();
@@ -27,7 +31,7 @@ export default function ExpiringMembers({
       <CardHeader className="flex flex-row items-center justify-between p-3 md:p-6">
         <CardTitle className="text-base md:text-xl">Expiring Soon</CardTitle>
         <span className="text-xs md:text-sm text-gray-500">
-          Members with membership expiring within 3 days
+          Members with membership expiring within {days} days
         </span>
       </CardHeader>
       <CardContent className="p-3 md:p-6">
@@ -72,6 +76,15 @@ export default function ExpiringMembers({
                     >
                       View
                     </Button>
+                    {onRenewMember && (
+                      <Button
+                        size="sm"
+                        className="text-xs"
+                        onClick={() => onRenewMember(member)}
+                      >
+                        Renew
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
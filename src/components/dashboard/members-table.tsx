@@ -1,6 +1,6 @@
-import { useEffect, useState } from "react";
-import { collection, getDocs, query, orderBy } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { useEffect, useRef, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { QueryDocumentSnapshot } from "firebase/firestore";
 import {
   Table,
   TableBody,
@@ -22,85 +22,183 @@ import {
   Pagination,
   PaginationContent,
   PaginationItem,
-  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
 } from "@/components/ui/pagination";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Member } from "@shared/schema";
 import { format } from "date-fns";
-import { Loader2, Search } from "lucide-react";
+import { IdCard, Loader2, Search, X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { JSX } from "react/jsx-runtime";
-import { FIRESTORE_COLLECTIONS } from "@/lib/firestore";
+import { MemberListFilter, MemberListQuery } from "@/lib/member-search";
+import {
+  backfillMemberSearchIndex,
+  countMembers,
+  getAllMembersMatching,
+  getMembersPage,
+} from "@/lib/firestore";
+import { queryClient } from "@/lib/queryClient";
+import { useDebounce } from "@/hooks/use-debounce";
+import { usePermissions } from "@/hooks/use-permissions";
+import { ExportFormat } from "@/lib/export";
+import { isFrozen } from "@/lib/freezes";
+import { useIdCardExport } from "@/hooks/use-id-card-export";
+import { useReportExport } from "@/hooks/use-report-export";
+import ExportMenu from "@/components/reports/export-menu";
+
+const FILTER_BUTTONS = [
+  "active",
+  "expired",
+  "inactive",
+  "Not Paid",
+] as const satisfies MemberListFilter[];
+
+const FILTER_LABELS: Record<MemberListFilter, string> = {
+  active: "Active",
+  expired: "Expired",
+  inactive: "Inactive",
+  "Not Paid": "Not Paid",
+  enrolled: "Active, including expired",
+  expiring: "Expiring soon",
+  joinedThisMonth: "Joined this month",
+};
 
 interface MembersTableProps {
   onViewMember: (member: Member) => void;
+  onRenewMember?: (member: Member) => void;
+  filter: MemberListFilter | null;
+  onFilterChange: (filter: MemberListFilter | null) => void;
+  // Window for the "expiring" filter, in days from today
+  expiringDays: number;
 }
 
-export default function MembersTable({ onViewMember }: MembersTableProps) {
+export default function MembersTable({
+  onViewMember,
+  onRenewMember,
+  filter,
+  onFilterChange,
+  expiringDays,
+}: MembersTableProps) {
   const [page, setPage] = useState(1);
   const [limit] = useState(10);
   const [searchTerm, setSearchTerm] = useState("");
-  const [filter, setFilter] = useState<string | null>(null);
-  const [members, setMembers] = useState<Member[]>([]);
-  const [loading, setLoading] = useState(true);
+  const search = useDebounce(searchTerm.trim(), 300);
+  const [selected, setSelected] = useState<Map<string, Member>>(new Map());
+  // Last document of each page loaded per search and filter; page n starts
+  // after cursors[n - 2]
+  const cursors = useRef(new Map<string, (QueryDocumentSnapshot | null)[]>());
+  const { isAdmin } = usePermissions();
+  const { exportCards, isExporting, isReady } = useIdCardExport();
+  const { exportMembers, isExporting: isExportingList } = useReportExport();
 
-  const fetchMembers = async () => {
-    setLoading(true);
-    try {
-      const q = query(
-        collection(db, FIRESTORE_COLLECTIONS.MEMBERS),
-        orderBy("joiningDate", "desc")
-      );
-      const snapshot = await getDocs(q);
-      const allMembers: Member[] = [];
+  const listQuery: MemberListQuery = { search, filter, expiringDays };
+  const listKey = JSON.stringify(listQuery);
 
-      snapshot.forEach((doc) => {
-        allMembers.push({ id: doc.id, ...doc.data() } as unknown as Member);
-      });
+  // Keyed under "members" so any change to a member refreshes the list
+  const { data, isLoading: loading } = useQuery({
+    queryKey: ["members", "table", search, filter, expiringDays, page],
+    queryFn: async () => {
+      const pageCursors = cursors.current.get(listKey) ?? [];
+      const result = await getMembersPage(
+        listQuery,
+        limit,
+        page > 1 ? pageCursors[page - 2] ?? null : null
+      );
+      pageCursors[page - 1] = result.lastDoc;
+      cursors.current.set(listKey, pageCursors);
+      return result;
+    },
+    placeholderData: keepPreviousData,
+  });
 
-      let filtered = allMembers;
+  const { data: total = 0 } = useQuery({
+    queryKey: ["members", "table", search, filter, expiringDays, "count"],
+    queryFn: () => countMembers(listQuery),
+    placeholderData: keepPreviousData,
+  });
 
-      if (searchTerm) {
-        const term = searchTerm.toLowerCase();
-        filtered = filtered.filter((member) => {
-          return /^\d+$/.test(term)
-            ? member.phone?.includes(term)
-            : member.name?.toLowerCase().includes(term);
-        });
+  // Members created before search keywords existed are indexed once per gym
+  useQuery({
+    queryKey: ["member-search-index"],
+    queryFn: async () => {
+      const indexed = await backfillMemberSearchIndex();
+      if (indexed > 0) {
+        queryClient.invalidateQueries({ queryKey: ["members", "table"] });
       }
+      return indexed;
+    },
+    enabled: isAdmin,
+  });
 
-      const today = new Date().toISOString().split("T")[0];
-      if (filter === "active") {
-        filtered = filtered.filter(
-          (m) => m.isActive && m.nextBillDate >= today
-        );
-      } else if (filter === "expired") {
-        filtered = filtered.filter((m) => m.isActive && m.nextBillDate < today);
-      } else if (filter === "inactive") {
-        filtered = filtered.filter((m) => !m.isActive);
-      } else if (filter === "Not Paid") {
-        filtered = filtered.filter((m) => !m.isPaid && m.isActive);
-      }
+  const paginatedMembers = data?.members ?? [];
+  const totalPages = Math.ceil(total / limit);
+  const hasNextPage = !!data?.lastDoc && page < totalPages;
+  const selectedMembers = Array.from(selected.values());
+  const isPageSelected =
+    paginatedMembers.length > 0 &&
+    paginatedMembers.every((member) => selected.has(String(member.id)));
 
-      setMembers(filtered);
-    } catch (error) {
-      console.error("Failed to fetch members:", error);
-    } finally {
-      setLoading(false);
-    }
+  // Start from the first page whenever the list being shown changes
+  useEffect(() => {
+    setPage(1);
+  }, [listKey]);
+
+  const filterLabel =
+    filter === "expiring"
+      ? `Expiring in ${expiringDays} days`
+      : filter && FILTER_LABELS[filter];
+
+  const toggleSelected = (member: Member, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (checked) next.set(String(member.id), member);
+      else next.delete(String(member.id));
+      return next;
+    });
   };
 
-  useEffect(() => {
-    fetchMembers();
-  }, [searchTerm, filter]);
+  const togglePageSelected = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      paginatedMembers.forEach((member) =>
+        checked
+          ? next.set(String(member.id), member)
+          : next.delete(String(member.id))
+      );
+      return next;
+    });
+  };
 
-  const paginatedMembers = members.slice((page - 1) * limit, page * limit);
-  const totalPages = Math.ceil(members.length / limit);
+  const handlePrintCards = async () => {
+    await exportCards(
+      selectedMembers,
+      `id_cards_${format(new Date(), "yyyy-MM-dd")}.pdf`
+    );
+    setSelected(new Map());
+  };
+
+  // Exports the whole filtered list, not just the current page
+  const handleExport = (exportFormat: ExportFormat) => {
+    const description = [
+      filter ? `${filterLabel} members` : "All members",
+      search && `matching "${search}"`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    exportMembers(
+      () => getAllMembersMatching(listQuery),
+      exportFormat,
+      description
+    );
+  };
 
   const getMemberStatusBadge = (member: Member) => {
     const today = new Date().toISOString().split("T")[0];
     if (!member.isActive) {
       return <Badge variant="outline">Inactive</Badge>;
+    } else if (isFrozen(member)) {
+      return <Badge variant="outline" className="border-sky-300 bg-sky-50 text-sky-700">Frozen</Badge>;
     } else if (member.nextBillDate < today) {
       return <Badge variant="destructive">Expired</Badge>;
     } else {
@@ -117,23 +215,6 @@ export default function MembersTable({ onViewMember }: MembersTableProps) {
     }
   };
 
-  const renderPaginationLinks = () => {
-    const links: JSX.Element[] = [];
-    if (totalPages <= 1) return links;
-
-    for (let i = 1; i <= totalPages; i++) {
-      links.push(
-        <PaginationItem key={i}>
-          <PaginationLink isActive={i === page} onClick={() => setPage(i)}>
-            {i}
-          </PaginationLink>
-        </PaginationItem>
-      );
-    }
-
-    return links;
-  };
-
   return (
     <Card className="w-full text-xs md:text-base">
       <CardHeader className="p-2 md:p-6">
@@ -154,21 +235,54 @@ export default function MembersTable({ onViewMember }: MembersTableProps) {
             </div>
           </div>
           <div className="flex flex-wrap gap-2">
-            {["All", "active", "expired", "inactive", "Not Paid"].map(
-              (status) => (
-                <Button
-                  key={status}
-                  variant={
-                    filter === (status === "All" ? null : status)
-                      ? "default"
-                      : "outline"
-                  }
-                  size="sm"
-                  onClick={() => setFilter(status === "All" ? null : status)}
+            <Button
+              variant={filter === null ? "default" : "outline"}
+              size="sm"
+              onClick={() => onFilterChange(null)}
+            >
+              All
+            </Button>
+            {FILTER_BUTTONS.map((status) => (
+              <Button
+                key={status}
+                variant={filter === status ? "default" : "outline"}
+                size="sm"
+                onClick={() => onFilterChange(status)}
+              >
+                {FILTER_LABELS[status]}
+              </Button>
+            ))}
+            {filter && !(FILTER_BUTTONS as MemberListFilter[]).includes(filter) && (
+              <Badge variant="secondary" className="gap-1 px-3">
+                {filterLabel}
+                <button
+                  type="button"
+                  aria-label="Clear filter"
+                  onClick={() => onFilterChange(null)}
                 >
-                  {status.charAt(0).toUpperCase() + status.slice(1)}
-                </Button>
-              )
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+            <ExportMenu
+              onExport={handleExport}
+              disabled={loading || total === 0}
+              isExporting={isExportingList}
+            />
+            {selectedMembers.length > 0 && (
+              <Button
+                size="sm"
+                variant="secondary"
+                disabled={!isReady || isExporting}
+                onClick={handlePrintCards}
+              >
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <IdCard className="h-4 w-4 mr-2" />
+                )}
+                Print ID Cards ({selectedMembers.length})
+              </Button>
             )}
           </div>
         </div>
@@ -177,6 +291,15 @@ export default function MembersTable({ onViewMember }: MembersTableProps) {
           <Table className="min-w-[600px] text-xs md:text-sm">
             <TableHeader className="sticky top-0 bg-white z-10 text-xs md:text-sm">
               <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox
+                    checked={isPageSelected}
+                    onCheckedChange={(checked) =>
+                      togglePageSelected(checked === true)
+                    }
+                    aria-label="Select all on this page"
+                  />
+                </TableHead>
                 <TableHead>Member</TableHead>
                 <TableHead>ID</TableHead>
                 <TableHead>Mobile</TableHead>
@@ -189,14 +312,14 @@ export default function MembersTable({ onViewMember }: MembersTableProps) {
             <TableBody>
               {loading ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-10">
+                  <TableCell colSpan={8} className="text-center py-10">
                     <Loader2 className="h-8 w-8 animate-spin mx-auto" />
                   </TableCell>
                 </TableRow>
               ) : paginatedMembers.length === 0 ? (
                 <TableRow>
                   <TableCell
-                    colSpan={7}
+                    colSpan={8}
                     className="text-center py-10 text-muted-foreground"
                   >
                     No members found
@@ -208,6 +331,15 @@ export default function MembersTable({ onViewMember }: MembersTableProps) {
                     key={member.id}
                     className="cursor-pointer hover:bg-gray-50"
                   >
+                    <TableCell className="py-1 px-2 md:py-3 md:px-4">
+                      <Checkbox
+                        checked={selected.has(String(member.id))}
+                        onCheckedChange={(checked) =>
+                          toggleSelected(member, checked === true)
+                        }
+                        aria-label={`Select ${member.name}`}
+                      />
+                    </TableCell>
                     <TableCell className="py-1 px-2 md:py-3 md:px-4">
                       <div className="flex items-center">
                         <div className="h-10 w-10 flex-shrink-0">
@@ -262,6 +394,15 @@ export default function MembersTable({ onViewMember }: MembersTableProps) {
                       >
                         View
                       </Button>
+                      {onRenewMember && (
+                        <Button
+                          variant="ghost"
+                          className="text-primary-600 hover:text-primary-900"
+                          onClick={() => onRenewMember(member)}
+                        >
+                          Renew
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
@@ -277,12 +418,34 @@ export default function MembersTable({ onViewMember }: MembersTableProps) {
               Showing{" "}
               <span className="font-medium">{(page - 1) * limit + 1}</span> to{" "}
               <span className="font-medium">
-                {Math.min(page * limit, members.length)}
+                {(page - 1) * limit + paginatedMembers.length}
               </span>{" "}
-              of <span className="font-medium">{members.length}</span>
+              of <span className="font-medium">{total}</span>
             </p>
-            <Pagination>
-              <PaginationContent>{renderPaginationLinks()}</PaginationContent>
+            <Pagination className="mx-0 w-auto">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    className={cn(
+                      "cursor-pointer",
+                      page === 1 && "pointer-events-none opacity-50"
+                    )}
+                    onClick={() => setPage(page - 1)}
+                  />
+                </PaginationItem>
+                <PaginationItem className="px-2 text-sm text-gray-700">
+                  Page {page} of {totalPages}
+                </PaginationItem>
+                <PaginationItem>
+                  <PaginationNext
+                    className={cn(
+                      "cursor-pointer",
+                      !hasNextPage && "pointer-events-none opacity-50"
+                    )}
+                    onClick={() => setPage(page + 1)}
+                  />
+                </PaginationItem>
+              </PaginationContent>
             </Pagination>
           </div>
         )}
@@ -0,0 +1,69 @@
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { reconcileMemberStats } from "@/lib/firestore";
+import { diffMemberStats } from "@/lib/member-stats";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw } from "lucide-react";
+
+interface RecountStatsButtonProps {
+  reconciledAt?: Date;
+}
+
+// Recounts the dashboard counters from every member, for when they have
+// drifted (e.g. after members were edited outside the app)
+export default function RecountStatsButton({
+  reconciledAt,
+}: RecountStatsButtonProps) {
+  const { toast } = useToast();
+
+  const recountMutation = useMutation({
+    mutationFn: reconcileMemberStats,
+    onSuccess: ({ stored, actual }) => {
+      const differences = diffMemberStats(stored, actual);
+      toast({
+        title:
+          differences.length > 0
+            ? "Counters corrected"
+            : "Counters are correct",
+        description:
+          differences.length > 0
+            ? differences.join(", ")
+            : `All ${actual.total} members are counted correctly.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to recount members",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      {reconciledAt && (
+        <span>
+          Last recounted{" "}
+          {formatDistanceToNow(reconciledAt, { addSuffix: true })}
+        </span>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={recountMutation.isPending}
+        onClick={() => recountMutation.mutate()}
+      >
+        {recountMutation.isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <RefreshCw className="h-4 w-4 mr-2" />
+        )}
+        Recount
+      </Button>
+    </div>
+  );
+}
@@ -30,6 +30,7 @@ interface StatsCardProps {
   value: number;
   icon: IconType;
   color: ColorType;
+  onClick?: () => void;
 }
 
 export default function StatsCard({
@@ -37,6 +38,7 @@ export default function StatsCard({
   value,
   icon,
   color,
+  onClick,
 }: StatsCardProps) {
   // Map color to tailwind classes
   const colorClasses: Record<
@@ -105,7 +107,18 @@ export default function StatsCard({
   };
 
   return (
-    <div className="bg-white rounded-lg shadow p-3 md:p-6 flex items-center gap-2 md:gap-4 text-xs md:text-base">
+    <div
+      className={cn(
+        "bg-white rounded-lg shadow p-3 md:p-6 flex items-center gap-2 md:gap-4 text-xs md:text-base",
+        onClick && "cursor-pointer hover:shadow-md transition-shadow"
+      )}
+      role={onClick ? "button" : undefined}
+      tabIndex={onClick ? 0 : undefined}
+      onClick={onClick}
+      onKeyDown={(e) => {
+        if (onClick && (e.key === "Enter" || e.key === " ")) onClick();
+      }}
+    >
       <div className={cn("p-3 rounded-lg", colorClasses[color].bg)}>
         {renderIcon()}
       </div>
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, isBefore, setHours, startOfHour } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  createCampaign,
+  getMembers,
+  getMembershipPlans,
+} from "@/lib/firestore";
+import {
+  CAMPAIGN_AUDIENCES,
+  CampaignAudienceType,
+  selectAudience,
+} from "@/lib/campaigns";
+import { getMemberTemplateValues, renderTemplate } from "@/lib/templates";
+import { Member } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+const DATETIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+export interface BroadcastFestival {
+  id: string;
+  title: string;
+  message: string;
+  date: Date;
+}
+
+interface BroadcastDialogProps {
+  festival: BroadcastFestival | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// 9 AM on the festival day, or the next hour if that has already passed
+const getDefaultSendAt = (date: Date) => {
+  const morning = startOfHour(setHours(date, 9));
+  const nextHour = startOfHour(new Date(Date.now() + 60 * 60 * 1000));
+  return isBefore(morning, new Date()) ? nextHour : morning;
+};
+
+export default function BroadcastDialog({
+  festival,
+  open,
+  onOpenChange,
+}: BroadcastDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [audienceType, setAudienceType] = useState<CampaignAudienceType>("all");
+  const [planId, setPlanId] = useState("");
+  const [sendAt, setSendAt] = useState("");
+
+  const { data: members = [], isLoading: isLoadingMembers } = useQuery({
+    queryKey: ["members", "all"],
+    queryFn: async () => (await getMembers()) as unknown as Member[],
+    enabled: open,
+  });
+  const { data: membershipPlans = [] } = useQuery({
+    queryKey: ["membershipPlans"],
+    queryFn: () => getMembershipPlans(),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && festival) {
+      setAudienceType("all");
+      setPlanId("");
+      setSendAt(format(getDefaultSendAt(festival.date), DATETIME_FORMAT));
+    }
+  }, [open, festival]);
+
+  const audience = {
+    type: audienceType,
+    planId: audienceType === "plan" ? planId : null,
+  };
+  const recipients = selectAudience(members, audience);
+
+  const renderMessage = (member: Member) => {
+    const plan = membershipPlans.find(
+      (plan) => plan.id === member.membershipPlanId
+    );
+    return renderTemplate(festival?.message ?? "", {
+      ...getMemberTemplateValues(member, plan?.name, user?.gymName),
+      festival: festival?.title,
+    });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: () => {
+      if (!festival) throw new Error("No festival selected");
+      return createCampaign(
+        {
+          festivalId: festival.id,
+          festivalTitle: festival.title,
+          audience,
+          sendAt: new Date(sendAt),
+        },
+        recipients.map((member) => ({
+          memberId: String(member.id),
+          memberName: member.name,
+          phone: member.phone,
+          body: renderMessage(member),
+        }))
+      );
+    },
+    onSuccess: () => {
+      toast({
+        title: "Broadcast scheduled",
+        description: `${recipients.length} message${
+          recipients.length === 1 ? "" : "s"
+        } will be sent ${format(new Date(sendAt), "MMM d 'at' h:mm a")}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["campaigns", festival?.id] });
+      queryClient.invalidateQueries({ queryKey: ["messages"] });
+      queryClient.invalidateQueries({ queryKey: ["message-queue"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to schedule broadcast",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!festival) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Broadcast "{festival.title}"</DialogTitle>
+          <DialogDescription>
+            Send this festival greeting to members over WhatsApp.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Audience</Label>
+            <Select
+              value={audienceType}
+              onValueChange={(value) =>
+                setAudienceType(value as CampaignAudienceType)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CAMPAIGN_AUDIENCES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {audienceType === "plan" && (
+            <div className="space-y-2">
+              <Label>Membership Plan</Label>
+              <Select value={planId} onValueChange={setPlanId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a membership plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {membershipPlans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="send-at">Send At</Label>
+            <Input
+              id="send-at"
+              type="datetime-local"
+              value={sendAt}
+              onChange={(e) => setSendAt(e.target.value)}
+            />
+          </div>
+
+          <div className="rounded-md bg-muted p-3 text-sm space-y-2">
+            {isLoadingMembers ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <p className="font-medium">
+                {recipients.length} recipient
+                {recipients.length === 1 ? "" : "s"}
+              </p>
+            )}
+            {recipients.length > 0 && (
+              <p className="text-muted-foreground whitespace-pre-wrap">
+                {renderMessage(recipients[0])}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={
+              scheduleMutation.isPending || recipients.length === 0 || !sendAt
+            }
+            onClick={() => scheduleMutation.mutate()}
+          >
+            {scheduleMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Schedule Broadcast
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
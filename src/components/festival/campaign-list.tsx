@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  getCampaignMessages,
+  getCampaigns,
+  setCampaignStatus,
+} from "@/lib/firestore";
+import {
+  CAMPAIGN_AUDIENCES,
+  CAMPAIGN_STATUSES,
+  Campaign,
+  CampaignStatus,
+} from "@/lib/campaigns";
+import { MESSAGE_STATUSES, MessageStatus } from "@/lib/messages";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  Pause,
+  Play,
+  XCircle,
+} from "lucide-react";
+
+const REPORT_REFRESH_MS = 30 * 1000;
+
+const statusVariant: Record<
+  MessageStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  queued: "outline",
+  sent: "secondary",
+  failed: "destructive",
+  paused: "outline",
+  cancelled: "outline",
+};
+
+function CampaignCard({ campaign }: { campaign: Campaign }) {
+  const { toast } = useToast();
+  const { isAdmin } = usePermissions();
+  const [showReport, setShowReport] = useState(false);
+
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ["campaigns", campaign.festivalId, campaign.id],
+    queryFn: () => getCampaignMessages(campaign.id),
+    refetchInterval:
+      campaign.status === "scheduled" ? REPORT_REFRESH_MS : false,
+  });
+
+  const counts = messages.reduce(
+    (totals, message) => ({
+      ...totals,
+      [message.status]: (totals[message.status] ?? 0) + 1,
+    }),
+    {} as Partial<Record<MessageStatus, number>>
+  );
+  const pending = (counts.queued ?? 0) + (counts.paused ?? 0);
+  const isStopped =
+    campaign.status === "cancelled" || campaign.status === "failed";
+  const isFinished = !isLoading && !isStopped && pending === 0;
+
+  const statusMutation = useMutation({
+    mutationFn: (status: CampaignStatus) => setCampaignStatus(campaign, status),
+    onSuccess: (_, status) => {
+      toast({
+        title: `Campaign ${
+          status === "scheduled"
+            ? "resumed"
+            : CAMPAIGN_STATUSES[status].toLowerCase()
+        }`,
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["campaigns", campaign.festivalId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["messages"] });
+      queryClient.invalidateQueries({ queryKey: ["message-queue"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update campaign",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2">
+            <Badge
+              variant={
+                isFinished
+                  ? "secondary"
+                  : campaign.status === "failed"
+                    ? "destructive"
+                    : "outline"
+              }
+            >
+              {isFinished ? "Completed" : CAMPAIGN_STATUSES[campaign.status]}
+            </Badge>
+            <span className="text-sm font-medium">
+              {CAMPAIGN_AUDIENCES[campaign.audience.type]} ·{" "}
+              {campaign.recipientCount} recipients
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Sends {format(campaign.sendAt, "MMM d, yyyy 'at' h:mm a")} ·{" "}
+            {counts.sent ?? 0} sent · {counts.failed ?? 0} failed · {pending}{" "}
+            pending
+          </p>
+          {campaign.status === "failed" && (
+            <p className="text-xs text-destructive mt-1">
+              Scheduling stopped after {campaign.queuedCount ?? 0} of{" "}
+              {campaign.recipientCount} messages, so none will be sent.
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {isAdmin && !isFinished && !isStopped && (
+            <>
+              {campaign.status === "paused" ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={statusMutation.isPending}
+                  onClick={() => statusMutation.mutate("scheduled")}
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  Resume
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={statusMutation.isPending}
+                  onClick={() => statusMutation.mutate("paused")}
+                >
+                  <Pause className="h-4 w-4 mr-1" />
+                  Pause
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={statusMutation.isPending}
+                onClick={() => statusMutation.mutate("cancelled")}
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setShowReport(!showReport)}
+          >
+            Report
+            {showReport ? (
+              <ChevronUp className="h-4 w-4 ml-1" />
+            ) : (
+              <ChevronDown className="h-4 w-4 ml-1" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {showReport && (
+        <div className="overflow-x-auto rounded-md border">
+          <Table className="text-xs md:text-sm">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center py-6">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                messages.map((message) => (
+                  <TableRow key={message.id}>
+                    <TableCell>
+                      <div className="font-medium">{message.memberName}</div>
+                      <div className="text-gray-500">{message.phone}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariant[message.status]}>
+                        {MESSAGE_STATUSES[message.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-gray-500">
+                      {message.sentAt
+                        ? `Sent ${format(message.sentAt, "MMM d, h:mm a")}`
+                        : message.lastError || "-"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Broadcast campaigns of one festival event, newest first
+export default function CampaignList({ festivalId }: { festivalId: string }) {
+  const { data: campaigns = [], isLoading } = useQuery({
+    queryKey: ["campaigns", festivalId],
+    queryFn: () => getCampaigns(festivalId),
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin" />;
+  }
+  if (campaigns.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">Broadcasts</h3>
+      {campaigns.map((campaign) => (
+        <CampaignCard key={campaign.id} campaign={campaign} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { format, isSameDay } from "date-fns";
+import { FestivalOccurrence } from "@/lib/festivals";
+import { Badge } from "@/components/ui/badge";
+import { Repeat } from "lucide-react";
+
+interface FestivalAgendaProps {
+  month: Date;
+  occurrences: FestivalOccurrence[];
+  selectedDate: Date | null;
+  onSelectDate: (date: Date) => void;
+}
+
+// The events of one month as a list, next to the calendar
+export default function FestivalAgenda({
+  month,
+  occurrences,
+  selectedDate,
+  onSelectDate,
+}: FestivalAgendaProps) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold mb-2">
+        {format(month, "MMMM yyyy")}
+      </h3>
+      {occurrences.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No events this month</p>
+      ) : (
+        <div className="divide-y rounded-md border">
+          {occurrences.map(({ event, date }) => (
+            <button
+              key={`${event.id}-${date.getTime()}`}
+              type="button"
+              onClick={() => onSelectDate(date)}
+              className={`flex w-full items-center gap-3 p-2 text-left text-sm hover:bg-muted ${
+                selectedDate && isSameDay(selectedDate, date) ? "bg-muted" : ""
+              }`}
+            >
+              <Badge variant="outline" className="w-16 justify-center">
+                {format(date, "EEE d")}
+              </Badge>
+              <span className="flex-1 font-medium">{event.title}</span>
+              {event.recurrence === "yearly" && (
+                <Repeat className="h-4 w-4 text-muted-foreground" />
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
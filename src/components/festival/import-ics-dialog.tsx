@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format, isSameDay } from "date-fns";
+import { useMessageTemplates } from "@/hooks/use-message-templates";
+import { useToast } from "@/hooks/use-toast";
+import { addFestivals } from "@/lib/firestore";
+import {
+  FESTIVAL_RECURRENCES,
+  FestivalEvent,
+  NewFestival,
+  parseIcsEvents,
+} from "@/lib/festivals";
+import { TEMPLATES } from "@/lib/templates";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+
+interface ImportIcsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existingEvents: FestivalEvent[];
+  onImported: () => void;
+}
+
+type ParsedEvent = Omit<NewFestival, "message">;
+
+export default function ImportIcsDialog({
+  open,
+  onOpenChange,
+  existingEvents,
+  onImported,
+}: ImportIcsDialogProps) {
+  const { toast } = useToast();
+  const { data: templates } = useMessageTemplates();
+  const [events, setEvents] = useState<ParsedEvent[] | null>(null);
+
+  // An event already on the calendar with the same title and day
+  const isDuplicate = (event: ParsedEvent) =>
+    existingEvents.some(
+      (existing) =>
+        existing.title.toLowerCase() === event.title.toLowerCase() &&
+        isSameDay(existing.date, event.date)
+    );
+  const newEvents = (events ?? []).filter((event) => !isDuplicate(event));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsed = parseIcsEvents(await file.text());
+    setEvents(parsed.sort((a, b) => a.date.getTime() - b.date.getTime()));
+    if (parsed.length === 0) {
+      toast({
+        title: "No events found",
+        description: "The file does not contain any calendar events.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: () =>
+      addFestivals(
+        newEvents.map((event) => ({
+          ...event,
+          message: templates?.festival ?? TEMPLATES.festival.defaultBody,
+        }))
+      ),
+    onSuccess: () => {
+      toast({
+        title: "Holidays imported",
+        description: `${newEvents.length} event${
+          newEvents.length === 1 ? "" : "s"
+        } added to the calendar.`,
+      });
+      setEvents(null);
+      onImported();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to import holidays",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(open) => {
+        if (!open) setEvents(null);
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Holidays</DialogTitle>
+          <DialogDescription>
+            Choose an iCalendar (.ics) file, such as a published list of Indian
+            holidays. Events already on the calendar are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={handleFileChange}
+        />
+
+        {events && events.length > 0 && (
+          <div className="max-h-72 overflow-y-auto rounded-md border divide-y text-sm">
+            {events.map((event, index) => (
+              <div
+                key={index}
+                className={`flex justify-between gap-2 p-2 ${
+                  isDuplicate(event) ? "text-muted-foreground line-through" : ""
+                }`}
+              >
+                <span>{event.title}</span>
+                <span className="whitespace-nowrap">
+                  {format(event.date, "MMM d, yyyy")}
+                  {event.recurrence === "yearly" &&
+                    ` · ${FESTIVAL_RECURRENCES.yearly}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={importMutation.isPending || newEvents.length === 0}
+            onClick={() => importMutation.mutate()}
+          >
+            {importMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Import {newEvents.length > 0 ? newEvents.length : ""} Events
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+import {
+  LayoutDashboard,
+  Crown,
+  UserPlus,
+  Calendar,
+  PhoneCall,
+  Package,
+  Users,
+  ClipboardCheck,
+  Settings,
+  MessageSquare,
+  FileText,
+  BellRing,
+  FileUp,
+  FileSpreadsheet,
+  TrendingDown,
+  LucideIcon,
+} from "lucide-react";
+import { Access } from "@/hooks/use-permissions";
+
+export interface NavItem {
+  name: string;
+  href: string;
+  icon: LucideIcon;
+  access?: Access;
+}
+
+// Shared by the sidebar, the mobile menu and the route guards in App
+export const navItems: NavItem[] = [
+  {
+    name: "Dashboard",
+    href: "/",
+    icon: LayoutDashboard,
+    access: "canViewDashboard",
+  },
+  {
+    name: "Membership",
+    href: "/membership",
+    icon: Crown,
+    access: "canViewMembers",
+  },
+  {
+    name: "Add Member",
+    href: "/add-member",
+    icon: UserPlus,
+    access: "canEditMembers",
+  },
+  {
+    name: "Import Members",
+    href: "/import-members",
+    icon: FileUp,
+    access: "canEditMembers",
+  },
+  {
+    name: "Check-in",
+    href: "/check-in",
+    icon: ClipboardCheck,
+    access: "canViewAttendance",
+  },
+  {
+    name: "Products",
+    href: "/products",
+    icon: Package,
+    access: "canViewProducts",
+  },
+  {
+    name: "Reports",
+    href: "/reports",
+    icon: FileSpreadsheet,
+    access: "canViewReports",
+  },
+  {
+    name: "Retention",
+    href: "/retention",
+    icon: TrendingDown,
+    access: "canViewReports",
+  },
+  {
+    name: "Trainer Management",
+    href: "/trainer-management",
+    icon: Users,
+    access: "canViewTrainers",
+  },
+  {
+    name: "Festival",
+    href: "/festival",
+    icon: Calendar,
+    access: "admin",
+  },
+  {
+    name: "Whatsapp",
+    href: "/whatsapp",
+    icon: PhoneCall,
+    access: "admin",
+  },
+  {
+    name: "Message Log",
+    href: "/messages",
+    icon: MessageSquare,
+    access: "admin",
+  },
+  {
+    name: "Message Templates",
+    href: "/messages/templates",
+    icon: FileText,
+    access: "admin",
+  },
+  {
+    name: "Automated Messages",
+    href: "/messages/reminders",
+    icon: BellRing,
+    access: "admin",
+  },
+  {
+    name: "Messaging Settings",
+    href: "/settings/messaging",
+    icon: Settings,
+    access: "admin",
+  },
+];
+
+export const getRouteAccess = (href: string) =>
+  navItems.find((item) => item.href === href)?.access;
@@ -1,58 +1,16 @@
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useLocation } from "wouter";
 import { cn } from "@/lib/utils";
-import {
-  LayoutDashboard,
-  Crown,
-  UserPlus,
-  Calendar,
-  LogOut,
-  PhoneCall,
-  Package,
-  Users,
-} from "lucide-react";
+import { navItems } from "./nav-items";
+import { LogOut } from "lucide-react";
 
 export default function Sidebar() {
   const [location] = useLocation();
   const { user, logoutMutation } = useAuth();
+  const { canAccess } = usePermissions();
 
-  const navItems = [
-    {
-      name: "Dashboard",
-      href: "/",
-      icon: LayoutDashboard,
-    },
-    {
-      name: "Membership",
-      href: "/membership",
-      icon: Crown,
-    },
-    {
-      name: "Add Member",
-      href: "/add-member",
-      icon: UserPlus,
-    },
-    {
-      name: "Products",
-      href: "/products",
-      icon: Package,
-    },
-    {
-      name: "Trainer Management",
-      href: "/trainer-management",
-      icon: Users,
-    },
-    {
-      name: "Festival",
-      href: "/festival",
-      icon: Calendar,
-    },
-    {
-      name: "Whatsapp",
-      href: "/whatsapp",
-      icon: PhoneCall,
-    },
-  ];
+  const visibleNavItems = navItems.filter((item) => canAccess(item.access));
 
   const handleLogout = () => {
     logoutMutation.mutate();
@@ -86,7 +44,7 @@ export default function Sidebar() {
 
         <nav className="flex-1 py-4 overflow-y-auto">
           <ul className="space-y-1">
-            {navItems.map((item) => (
+            {visibleNavItems.map((item) => (
               <li key={item.name}>
                 <a
                   href={item.href}
@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import { getAttendance } from "@/lib/firestore";
+import { toDayKey } from "@/lib/attendance";
+import { Member } from "@shared/schema";
+import { Calendar } from "@/components/ui/calendar";
+import { Loader2 } from "lucide-react";
+
+interface AttendanceCalendarProps {
+  member: Member;
+}
+
+export default function AttendanceCalendar({
+  member,
+}: AttendanceCalendarProps) {
+  const memberId = String(member.id);
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  const { data: visits = [], isLoading } = useQuery({
+    queryKey: ["attendance", "member", memberId, toDayKey(month)],
+    queryFn: () => getAttendance(memberId, month, endOfMonth(month)),
+  });
+
+  const visitedDays = new Set(visits.map((visit) => toDayKey(visit.date)));
+
+  const tileClassName = ({ date, view }: { date: Date; view: string }) =>
+    view === "month" && visitedDays.has(toDayKey(date))
+      ? "bg-green-200 rounded-full"
+      : null;
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm md:text-base font-semibold">Attendance</h3>
+        <span className="text-xs md:text-sm text-gray-500">
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            `${visitedDays.size} day${visitedDays.size !== 1 ? "s" : ""} in ${format(
+              month,
+              "MMMM"
+            )}`
+          )}
+        </span>
+      </div>
+      <Calendar
+        className="w-full"
+        value={null}
+        activeStartDate={month}
+        onActiveStartDateChange={({ activeStartDate }) =>
+          activeStartDate && setMonth(startOfMonth(activeStartDate))
+        }
+        tileClassName={tileClassName}
+        maxDetail="month"
+        minDetail="month"
+      />
+    </div>
+  );
+}
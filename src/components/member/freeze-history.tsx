@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { getFreezes } from "@/lib/firestore";
+import { Member } from "@shared/schema";
+
+interface FreezeHistoryProps {
+  member: Member;
+}
+
+const formatDay = (date: string) => format(new Date(date), "MMM d, yyyy");
+
+// Only shown once the member has been frozen at least once
+export default function FreezeHistory({ member }: FreezeHistoryProps) {
+  const memberId = String(member.id);
+  const { data: freezes = [] } = useQuery({
+    queryKey: ["freezes", memberId],
+    queryFn: () => getFreezes(memberId),
+  });
+
+  if (freezes.length === 0) return null;
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      <h3 className="text-sm md:text-base font-semibold mb-3">
+        Freeze History
+      </h3>
+      <ul className="space-y-2 text-xs md:text-sm">
+        {freezes.map((freeze) => (
+          <li
+            key={freeze.id}
+            className="flex items-center justify-between rounded-md border p-2"
+          >
+            <div>
+              <p className="font-medium">{freeze.reason || "-"}</p>
+              <p className="text-gray-500">
+                {freeze.days === 0
+                  ? `Cancelled (booked from ${formatDay(freeze.startDate)})`
+                  : `${formatDay(freeze.startDate)} – ${formatDay(
+                      freeze.endDate
+                    )} (${freeze.days} day${freeze.days === 1 ? "" : "s"})`}
+              </p>
+            </div>
+            <div className="text-right text-gray-500">
+              <p>{freeze.frozenAt && format(freeze.frozenAt, "MMM d, yyyy")}</p>
+              <p>{freeze.frozenBy?.name || "-"}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import {
+  endMemberFreeze,
+  freezeMember,
+  getFreezes,
+  getMembershipPlans,
+  getRenewals,
+} from "@/lib/firestore";
+import {
+  getFreezeDays,
+  getFreezeDaysUsed,
+  getFreezeError,
+  getTermStart,
+  shiftDay,
+} from "@/lib/freezes";
+import { toDayKey } from "@/lib/attendance";
+import { Member } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+
+interface FreezeMemberDialogProps {
+  member: Member | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdated?: (member: Member) => void;
+}
+
+const formatDay = (date: string) => format(new Date(date), "MMM d, yyyy");
+
+export default function FreezeMemberDialog({
+  member,
+  open,
+  onOpenChange,
+  onUpdated,
+}: FreezeMemberDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+  const memberId = String(member?.id);
+  const today = toDayKey();
+
+  const { data: membershipPlans = [] } = useQuery({
+    queryKey: ["membershipPlans"],
+    queryFn: () => getMembershipPlans(),
+    enabled: open,
+  });
+  const { data: freezes = [], isLoading: isLoadingFreezes } = useQuery({
+    queryKey: ["freezes", memberId],
+    queryFn: () => getFreezes(memberId),
+    enabled: open && !!member,
+  });
+  const { data: renewals = [], isLoading: isLoadingRenewals } = useQuery({
+    queryKey: ["renewals", memberId],
+    queryFn: () => getRenewals(memberId),
+    enabled: open && !!member,
+  });
+
+  // Start each booking from a blank form beginning today
+  useEffect(() => {
+    if (open) {
+      setStartDate(toDayKey());
+      setEndDate("");
+      setReason("");
+    }
+  }, [open]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["members"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+    queryClient.invalidateQueries({ queryKey: ["expiring-members"] });
+    queryClient.invalidateQueries({ queryKey: ["freezes"] });
+    queryClient.invalidateQueries({ queryKey: ["payments"] });
+    queryClient.invalidateQueries({ queryKey: ["renewals"] });
+    queryClient.invalidateQueries({ queryKey: ["revenue"] });
+  };
+
+  const freezeMutation = useMutation({
+    mutationFn: () =>
+      freezeMember({
+        memberId,
+        startDate,
+        endDate,
+        reason: reason.trim(),
+        frozenBy: { id: user?.id ?? "", name: user?.username ?? "" },
+      }),
+    onSuccess: (freeze) => {
+      toast({
+        title: "Membership frozen",
+        description: `Frozen for ${freeze.days} day${
+          freeze.days === 1 ? "" : "s"
+        }. Next bill date moved to ${formatDay(freeze.nextBillDate)}.`,
+      });
+      if (member) {
+        onUpdated?.({
+          ...member,
+          frozenFrom: startDate,
+          frozenUntil: endDate,
+          nextBillDate: freeze.nextBillDate,
+        });
+      }
+      invalidate();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to freeze membership",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const endMutation = useMutation({
+    mutationFn: () => endMemberFreeze(memberId),
+    onSuccess: ({ nextBillDate }) => {
+      toast({
+        title: "Freeze ended",
+        description: `Next bill date moved to ${formatDay(nextBillDate)}.`,
+      });
+      if (member) {
+        onUpdated?.({
+          ...member,
+          frozenFrom: null,
+          frozenUntil: null,
+          nextBillDate,
+        });
+      }
+      invalidate();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to end freeze",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!member) return null;
+
+  const hasFreeze = !!member.frozenUntil && member.frozenUntil >= today;
+  const plan = membershipPlans.find(
+    (plan) => plan.id === String(member.membershipPlanId)
+  );
+  const maxFreezeDays = plan?.maxFreezeDays ?? null;
+  const daysUsed = getFreezeDaysUsed(
+    freezes,
+    getTermStart(member.joiningDate, renewals)
+  );
+  const error = getFreezeError({
+    startDate,
+    endDate,
+    member,
+    maxFreezeDays,
+    daysUsed,
+  });
+  const days =
+    startDate && endDate && endDate >= startDate
+      ? getFreezeDays(startDate, endDate)
+      : 0;
+  const isLoading = isLoadingFreezes || isLoadingRenewals;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Freeze Membership</DialogTitle>
+          <DialogDescription>
+            {member.name} — current term ends {formatDay(member.nextBillDate)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasFreeze ? (
+          <>
+            <p className="rounded-md bg-sky-50 p-3 text-sm text-sky-700">
+              {member.frozenFrom! > today ? "Freeze booked" : "Frozen"} from{" "}
+              {formatDay(member.frozenFrom!)} to{" "}
+              {formatDay(member.frozenUntil!)}. Ending it now gives the unused
+              days back and brings the next bill date forward.
+            </p>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button
+                onClick={() => endMutation.mutate()}
+                disabled={endMutation.isPending}
+              >
+                {endMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                {member.frozenFrom! > today ? "Cancel Freeze" : "End Freeze"}
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="freeze-start">From</Label>
+                <Input
+                  id="freeze-start"
+                  type="date"
+                  min={today}
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="freeze-end">Until</Label>
+                <Input
+                  id="freeze-end"
+                  type="date"
+                  min={startDate || today}
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="freeze-reason">Reason</Label>
+              <Textarea
+                id="freeze-reason"
+                rows={2}
+                placeholder="e.g. Travelling, injury"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : (
+              <div className="space-y-1 text-sm text-muted-foreground">
+                <p>
+                  {maxFreezeDays === null
+                    ? `${daysUsed} freeze days used this term (no limit)`
+                    : `${Math.max(maxFreezeDays - daysUsed, 0)} of ${
+                        maxFreezeDays
+                      } freeze days left this term`}
+                </p>
+                {days > 0 && !error && (
+                  <p>
+                    {days} day{days === 1 ? "" : "s"} — next bill date moves to{" "}
+                    {formatDay(shiftDay(member.nextBillDate, days))}
+                  </p>
+                )}
+                {error && endDate && (
+                  <p className="text-destructive">{error}</p>
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => freezeMutation.mutate()}
+                disabled={
+                  !!error ||
+                  !reason.trim() ||
+                  isLoading ||
+                  freezeMutation.isPending
+                }
+              >
+                {freezeMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Freeze
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,10 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useMemberQr } from "@/hooks/use-member-qr";
+import { useIdCardExport } from "@/hooks/use-id-card-export";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Member } from "@shared/schema";
 import {
@@ -14,25 +17,37 @@ import {
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { Loader2, Pencil, Download } from "lucide-react";
-import { doc, getDoc, updateDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { Loader2, Pencil, Download, RefreshCw, Snowflake } from "lucide-react";
 import { useLocation } from "wouter";
-import { FIRESTORE_COLLECTIONS } from "@/lib/firestore";
-import html2canvas from "html2canvas";
+import {
+  FIRESTORE_COLLECTIONS,
+  getGymDoc,
+  updateMember,
+} from "@/lib/firestore";
+import PaymentHistory from "./payment-history";
+import RenewalHistory from "./renewal-history";
+import FreezeHistory from "./freeze-history";
+import AttendanceCalendar from "./attendance-calendar";
 
 interface MemberDetailsModalProps {
   member: Member | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  onRenew?: (member: Member) => void;
+  onFreeze?: (member: Member) => void;
 }
 
 export default function MemberDetailsModal({
   member,
   open,
   onOpenChange,
+  onRenew,
+  onFreeze,
 }: MemberDetailsModalProps) {
   const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+  const canEditMembers = hasPermission("canEditMembers");
+  const canRenew = canEditMembers && hasPermission("canEditPayments");
   const [isActive, setIsActive] = useState(member?.isActive ?? false);
   const [membershipPlan, setMembershipPlan] = useState<{
     name: string;
@@ -41,7 +56,8 @@ export default function MemberDetailsModal({
   } | null>(null);
   const [isLoadingPlan, setIsLoadingPlan] = useState(false);
   const [, navigate] = useLocation();
-  const cardRef = useRef(null);
+  const { data: qrCode } = useMemberQr(member ? String(member.id) : undefined);
+  const { exportCards, isExporting, isReady } = useIdCardExport();
 
   const updateStatusMutation = useMutation({
     mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
@@ -73,12 +89,7 @@ export default function MemberDetailsModal({
   const handleStatusChange = async (checked: boolean) => {
     if (!member) return;
     try {
-      const memberRef = doc(
-        db,
-        FIRESTORE_COLLECTIONS.MEMBERS,
-        String(member.id)
-      );
-      await updateDoc(memberRef, { isActive: checked });
+      await updateMember(String(member.id), { isActive: checked });
       setIsActive(checked);
       queryClient.invalidateQueries({ queryKey: ["members"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
@@ -114,14 +125,11 @@ export default function MemberDetailsModal({
       }
       setIsLoadingPlan(true);
       try {
-        const planRef = doc(
-          db,
+        const data = await getGymDoc(
           FIRESTORE_COLLECTIONS.MEMBERSHIP_PLANS,
           String(member.membershipPlanId)
         );
-        const planSnap = await getDoc(planRef);
-        if (planSnap.exists()) {
-          const data = planSnap.data();
+        if (data) {
           console.log({ data });
           setMembershipPlan({
             name: data.name,
@@ -147,13 +155,9 @@ export default function MemberDetailsModal({
     onOpenChange(false);
   };
 
-  const handleDownloadCard = async () => {
-    if (!cardRef.current) return;
-    const canvas = await html2canvas(cardRef.current);
-    const link = document.createElement("a");
-    link.download = `${member?.name.replace(/\s+/g, "_")}_id_card.png`;
-    link.href = canvas.toDataURL();
-    link.click();
+  const handleDownloadCard = () => {
+    if (!member) return;
+    exportCards([member], `${member.name.replace(/\s+/g, "_")}_id_card.pdf`);
   };
 
   if (!member) return null;
@@ -166,14 +170,8 @@ export default function MemberDetailsModal({
         </DialogHeader>
 
         <div className="relative mt-4">
-          <div className="absolute top-0 left-0 md:hidden z-10">
-            <Button size="icon" variant="outline" onClick={handleDownloadCard}>
-              <Download className="w-4 h-4" />
-            </Button>
-          </div>
-
-          <div ref={cardRef} className="flex flex-col md:flex-row mt-6">
-            <div className="mb-6 md:mb-0 md:mr-6 flex-shrink-0 flex justify-center md:block">
+          <div className="flex flex-col md:flex-row mt-6">
+            <div className="mb-6 md:mb-0 md:mr-6 flex-shrink-0 flex flex-col items-center">
               {member.photo ? (
                 <img
                   className="h-32 w-32 rounded-full object-cover border-4 border-gray-200"
@@ -187,6 +185,13 @@ export default function MemberDetailsModal({
                   </span>
                 </div>
               )}
+              {qrCode && (
+                <img
+                  className="h-24 w-24 mt-4"
+                  src={qrCode}
+                  alt="Check-in QR code"
+                />
+              )}
             </div>
 
             <div className="flex-1">
@@ -219,6 +224,15 @@ export default function MemberDetailsModal({
                     {format(new Date(member.nextBillDate), "MMMM d, yyyy")}
                   </p>
                 </div>
+                {member.frozenFrom && member.frozenUntil && (
+                  <div className="md:col-span-2">
+                    <p className="text-xs md:text-sm text-gray-500">Frozen</p>
+                    <p className="font-medium text-sky-700">
+                      {format(new Date(member.frozenFrom), "MMMM d, yyyy")} –{" "}
+                      {format(new Date(member.frozenUntil), "MMMM d, yyyy")}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <p className="text-xs md:text-sm text-gray-500">Membership</p>
                   {isLoadingPlan ? (
@@ -256,7 +270,9 @@ export default function MemberDetailsModal({
                     <Switch
                       checked={isActive}
                       onCheckedChange={handleStatusChange}
-                      disabled={updateStatusMutation.isPending}
+                      disabled={
+                        updateStatusMutation.isPending || !canEditMembers
+                      }
                       id="member-status-toggle"
                     />
                     <Label
@@ -275,8 +291,59 @@ export default function MemberDetailsModal({
           </div>
         </div>
 
-        <DialogFooter className="mt-6">
-          <Button className="gap-2" onClick={handleEditMember}>
+        {!isLoadingPlan && (
+          <PaymentHistory member={member} plan={membershipPlan} />
+        )}
+
+        <RenewalHistory member={member} />
+
+        <FreezeHistory member={member} />
+
+        {hasPermission("canViewAttendance") && (
+          <AttendanceCalendar member={member} />
+        )}
+
+        <DialogFooter className="mt-6 gap-2">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={handleDownloadCard}
+            disabled={!isReady || isExporting}
+          >
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+            ID Card
+          </Button>
+          {onRenew && (
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => onRenew(member)}
+              disabled={!canRenew}
+            >
+              <RefreshCw className="h-4 w-4" />
+              Renew
+            </Button>
+          )}
+          {onFreeze && (
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => onFreeze(member)}
+              disabled={!canRenew}
+            >
+              <Snowflake className="h-4 w-4" />
+              Freeze
+            </Button>
+          )}
+          <Button
+            className="gap-2"
+            onClick={handleEditMember}
+            disabled={!canEditMembers}
+          >
             <Pencil className="h-4 w-4" />
             Edit Member
           </Button>
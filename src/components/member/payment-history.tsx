@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePaymentReceipt } from "@/hooks/use-payment-receipt";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient } from "@/lib/queryClient";
+import {
+  addPayment,
+  getPayments,
+  syncMemberPaymentStatus,
+} from "@/lib/firestore";
+import {
+  PAYMENT_MODES,
+  PaymentFormValues,
+  getMemberBalance,
+  toNewPayment,
+} from "@/lib/payments";
+import { Member } from "@shared/schema";
+import RecordPaymentForm from "@/components/payment/record-payment-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus } from "lucide-react";
+
+interface PaymentHistoryProps {
+  member: Member;
+  plan: { name?: string; price: number; durationMonths: number } | null;
+}
+
+const formatDay = (date: string) => format(new Date(date), "MMM d, yyyy");
+
+export default function PaymentHistory({ member, plan }: PaymentHistoryProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const sendPaymentReceipt = usePaymentReceipt();
+  const { hasPermission } = usePermissions();
+  const [showForm, setShowForm] = useState(false);
+  const memberId = String(member.id);
+
+  const { data: payments = [], isLoading } = useQuery({
+    queryKey: ["payments", memberId],
+    queryFn: () => getPayments(memberId),
+    enabled: hasPermission("canViewPayments"),
+  });
+
+  const balance = getMemberBalance(member, plan, payments);
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: async (values: PaymentFormValues) => {
+      await addPayment(
+        toNewPayment(values, {
+          memberId,
+          planId: member.membershipPlanId,
+          periodStart: balance.periodStart,
+          periodEnd: balance.periodEnd,
+          collectedBy: { id: user?.id ?? "", name: user?.username ?? "" },
+        })
+      );
+      return syncMemberPaymentStatus(memberId);
+    },
+    onSuccess: (_, values) => {
+      toast({
+        title: "Payment recorded",
+        description: "The payment has been added to the member's ledger.",
+      });
+      sendPaymentReceipt({
+        member: { id: memberId, name: member.name, phone: member.phone },
+        planName: plan?.name,
+        amount: values.amount,
+        nextBillDate: member.nextBillDate,
+      });
+      setShowForm(false);
+      queryClient.invalidateQueries({ queryKey: ["payments", memberId] });
+      queryClient.invalidateQueries({ queryKey: ["members"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["revenue"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to record payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!hasPermission("canViewPayments")) return null;
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-sm md:text-base font-semibold">Payments</h3>
+          <p className="text-xs md:text-sm text-gray-500">
+            Current term {formatDay(balance.periodStart)} –{" "}
+            {formatDay(balance.periodEnd)}
+          </p>
+        </div>
+        {balance.outstanding > 0 ? (
+          <Badge variant="destructive">₹{balance.outstanding} due</Badge>
+        ) : (
+          <Badge variant="secondary">Paid</Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4 text-xs md:text-sm">
+        <div>
+          <p className="text-gray-500">Plan price</p>
+          <p className="font-medium">₹{balance.due}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Paid</p>
+          <p className="font-medium">₹{balance.paid}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Discount</p>
+          <p className="font-medium">₹{balance.discount}</p>
+        </div>
+      </div>
+
+      {showForm ? (
+        <div className="rounded-md border p-3 mb-4">
+          <RecordPaymentForm
+            defaultAmount={balance.outstanding}
+            onSubmit={(values) => recordPaymentMutation.mutate(values)}
+            onCancel={() => setShowForm(false)}
+            isSubmitting={recordPaymentMutation.isPending}
+          />
+        </div>
+      ) : (
+        hasPermission("canEditPayments") && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="mb-4"
+            onClick={() => setShowForm(true)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Record Payment
+          </Button>
+        )
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : payments.length === 0 ? (
+        <p className="text-xs md:text-sm text-muted-foreground">
+          No payments recorded yet
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <Table className="text-xs md:text-sm">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Collected by</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell>{format(payment.paidAt, "MMM d, yyyy")}</TableCell>
+                  <TableCell>
+                    ₹{payment.amount}
+                    {payment.discount > 0 && (
+                      <span className="text-gray-500">
+                        {" "}
+                        (−₹{payment.discount})
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{PAYMENT_MODES[payment.mode]}</TableCell>
+                  <TableCell>
+                    {formatDay(payment.periodStart)} –{" "}
+                    {formatDay(payment.periodEnd)}
+                  </TableCell>
+                  <TableCell>{payment.collectedBy?.name || "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
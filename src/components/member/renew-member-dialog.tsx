@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePaymentReceipt } from "@/hooks/use-payment-receipt";
+import { queryClient } from "@/lib/queryClient";
+import {
+  getActiveCoupon,
+  getMembershipPlans,
+  renewMember,
+} from "@/lib/firestore";
+import { PaymentFormValues } from "@/lib/payments";
+import { getRenewalPeriod } from "@/lib/renewals";
+import { Member } from "@shared/schema";
+import RecordPaymentForm from "@/components/payment/record-payment-form";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+interface RenewMemberDialogProps {
+  member: Member | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRenewed?: (member: Member) => void;
+}
+
+const formatDay = (date: string) => format(new Date(date), "MMM d, yyyy");
+
+export default function RenewMemberDialog({
+  member,
+  open,
+  onOpenChange,
+  onRenewed,
+}: RenewMemberDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const sendPaymentReceipt = usePaymentReceipt();
+  const [planId, setPlanId] = useState<string>("");
+
+  const { data: membershipPlans = [], isLoading: isLoadingPlans } = useQuery({
+    queryKey: ["membershipPlans"],
+    queryFn: () => getMembershipPlans(),
+    enabled: open,
+  });
+  const { data: coupon, isLoading: isLoadingCoupon } = useQuery({
+    queryKey: ["coupons", String(member?.id)],
+    queryFn: () => getActiveCoupon(String(member?.id)),
+    enabled: open && !!member,
+  });
+  const activePlans = membershipPlans.filter((plan) => plan.isActive !== false);
+  const selectedPlan = activePlans.find((plan) => plan.id === planId);
+
+  // Default to the member's current plan each time the dialog opens
+  useEffect(() => {
+    if (open && member) {
+      setPlanId(String(member.membershipPlanId ?? ""));
+    }
+  }, [open, member]);
+
+  const renewMutation = useMutation({
+    mutationFn: async (values: PaymentFormValues) => {
+      if (!member || !selectedPlan) {
+        throw new Error("Select a membership plan to renew");
+      }
+      return renewMember({
+        member: { id: String(member.id) },
+        plan: selectedPlan,
+        payment: { ...values, note: values.note || "" },
+        renewedBy: { id: user?.id ?? "", name: user?.username ?? "" },
+        // The coupon is used up once any discount is given with it
+        couponId: coupon && values.discount > 0 ? coupon.id : undefined,
+      });
+    },
+    onSuccess: (renewal, values) => {
+      toast({
+        title: "Membership renewed",
+        description: `Renewed until ${formatDay(renewal.periodEnd)}.`,
+      });
+      if (member && selectedPlan) {
+        sendPaymentReceipt({
+          member: {
+            id: String(member.id),
+            name: member.name,
+            phone: member.phone,
+          },
+          planName: selectedPlan.name,
+          amount: values.amount,
+          nextBillDate: renewal.periodEnd,
+        });
+        onRenewed?.({
+          ...member,
+          membershipPlanId: selectedPlan.id,
+          nextBillDate: renewal.periodEnd,
+          isActive: true,
+          isPaid: renewal.balance.outstanding <= 0,
+        });
+      }
+      const memberId = String(member?.id);
+      queryClient.invalidateQueries({ queryKey: ["members"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["revenue"] });
+      queryClient.invalidateQueries({ queryKey: ["expiring-members"] });
+      queryClient.invalidateQueries({ queryKey: ["payments", memberId] });
+      queryClient.invalidateQueries({ queryKey: ["renewals"] });
+      queryClient.invalidateQueries({ queryKey: ["coupons", memberId] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      // The coupon may have been used in the meantime
+      queryClient.invalidateQueries({
+        queryKey: ["coupons", String(member?.id)],
+      });
+      toast({
+        title: "Failed to renew membership",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!member) return null;
+
+  const period = selectedPlan
+    ? getRenewalPeriod(member.nextBillDate, selectedPlan.durationMonths)
+    : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Renew Membership</DialogTitle>
+          <DialogDescription>
+            {member.name} — current term ends {formatDay(member.nextBillDate)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Membership Plan</Label>
+          <Select value={planId} onValueChange={setPlanId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a membership plan" />
+            </SelectTrigger>
+            <SelectContent>
+              {isLoadingPlans ? (
+                <div className="flex items-center justify-center p-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                </div>
+              ) : (
+                activePlans.map((plan) => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {plan.name} ({plan.durationMonths} Month
+                    {plan.durationMonths > 1 ? "s" : ""}) - ₹
+                    {Math.round(plan.price)}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+          {period && (
+            <p className="text-sm text-muted-foreground">
+              New term: {formatDay(period.periodStart)} –{" "}
+              {formatDay(period.periodEnd)}
+            </p>
+          )}
+        </div>
+
+        {coupon && (
+          <p className="rounded-md bg-pink-50 p-2 text-sm text-pink-700">
+            Birthday coupon: ₹{coupon.discount} off, valid until{" "}
+            {formatDay(coupon.expiresOn)}. Applied as the discount below.
+          </p>
+        )}
+
+        {selectedPlan && !isLoadingCoupon && (
+          <RecordPaymentForm
+            key={`${selectedPlan.id}-${coupon?.id}`}
+            // The coupon comes off the price, so the amount due is the rest
+            defaultAmount={Math.max(
+              0,
+              selectedPlan.price - (coupon?.discount ?? 0)
+            )}
+            defaultDiscount={coupon?.discount}
+            onSubmit={(values) => renewMutation.mutate(values)}
+            onCancel={() => onOpenChange(false)}
+            isSubmitting={renewMutation.isPending}
+            submitLabel="Renew"
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
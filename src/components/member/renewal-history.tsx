@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { getRenewals } from "@/lib/firestore";
+import { Member } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+
+interface RenewalHistoryProps {
+  member: Member;
+}
+
+const formatDay = (date: string) => format(new Date(date), "MMM d, yyyy");
+
+export default function RenewalHistory({ member }: RenewalHistoryProps) {
+  const memberId = String(member.id);
+  const { data: renewals = [], isLoading } = useQuery({
+    queryKey: ["renewals", memberId],
+    queryFn: () => getRenewals(memberId),
+  });
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      <h3 className="text-sm md:text-base font-semibold mb-3">
+        Renewal History
+      </h3>
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : renewals.length === 0 ? (
+        <p className="text-xs md:text-sm text-muted-foreground">
+          No renewals yet
+        </p>
+      ) : (
+        <ul className="space-y-2 text-xs md:text-sm">
+          {renewals.map((renewal) => (
+            <li
+              key={renewal.id}
+              className="flex items-center justify-between rounded-md border p-2"
+            >
+              <div>
+                <p className="font-medium">{renewal.planName}</p>
+                <p className="text-gray-500">
+                  {formatDay(renewal.periodStart)} –{" "}
+                  {formatDay(renewal.periodEnd)}
+                </p>
+              </div>
+              <div className="text-right text-gray-500">
+                <p>{format(renewal.renewedAt, "MMM d, yyyy")}</p>
+                <p>{renewal.renewedBy?.name || "-"}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ const formSchema = z.object({
     z.number().min(0, "Price cannot be negative").optional()
   ),
   description: z.string().optional(),
+  maxFreezeDays: z.number().int().min(0, "Freeze days cannot be negative").nullable(),
   isActive: z.boolean().default(true),
 });
 
@@ -36,6 +37,7 @@ interface MembershipPlanProps {
   durationMonths: number;
   price: number;
   description?: string;
+  maxFreezeDays?: number | null;
   gymId: string;
   isActive?: boolean;
 }
@@ -61,6 +63,7 @@ export default function MembershipPlanForm({
       durationMonths: plan?.durationMonths || 1,
       price: plan?.price || undefined,
       description: plan?.description ?? "",
+      maxFreezeDays: plan?.maxFreezeDays ?? null,
       isActive: plan?.isActive !== false, // default to true if undefined
     },
   });
@@ -162,6 +165,36 @@ export default function MembershipPlanForm({
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="maxFreezeDays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Freeze Days per Term (Optional)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="No limit"
+                  value={field.value ?? ""}
+                  onChange={(e) =>
+                    field.onChange(
+                      e.target.value === "" ? null : parseInt(e.target.value)
+                    )
+                  }
+                  onBlur={field.onBlur}
+                  name={field.name}
+                  ref={field.ref}
+                />
+              </FormControl>
+              <FormDescription>
+                Most days a member can freeze before their next renewal
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="isActive"
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useBirthdaySettings } from "@/hooks/use-birthdays";
+import { queryClient } from "@/lib/queryClient";
+import { saveBirthdaySettings } from "@/lib/firestore";
+import { BirthdaySettings } from "@/lib/birthdays";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+
+export default function BirthdaySettingsCard() {
+  const { toast } = useToast();
+  const { data: savedSettings, isLoading } = useBirthdaySettings();
+  const [settings, setSettings] = useState<BirthdaySettings | null>(null);
+
+  useEffect(() => {
+    if (savedSettings) setSettings(savedSettings);
+  }, [savedSettings]);
+
+  const isDirty = JSON.stringify(settings) !== JSON.stringify(savedSettings);
+  const isValid =
+    !!settings &&
+    (!settings.couponEnabled ||
+      (settings.couponDiscount > 0 && settings.couponValidDays > 0));
+
+  const update = (changes: Partial<BirthdaySettings>) =>
+    setSettings(settings && { ...settings, ...changes });
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveBirthdaySettings(settings!),
+    onSuccess: () => {
+      toast({
+        title: "Birthday settings saved",
+        description: "Birthdays will be handled using the new settings.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["birthday-settings"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save birthday settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="p-2 md:p-6">
+        <CardTitle className="text-base md:text-xl">
+          Birthday Greetings
+        </CardTitle>
+        <CardDescription className="text-xs md:text-sm">
+          Runs once a day for members whose birthday it is. Use {"{{discount}}"}{" "}
+          in the birthday template to mention the coupon.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-2 md:p-6 pt-0 space-y-4">
+        {isLoading || !settings ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="send-greetings"
+                checked={settings.sendGreetings}
+                onCheckedChange={(sendGreetings) => update({ sendGreetings })}
+              />
+              <Label htmlFor="send-greetings">
+                Send the birthday template on WhatsApp
+              </Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="coupon-enabled"
+                checked={settings.couponEnabled}
+                onCheckedChange={(couponEnabled) => update({ couponEnabled })}
+              />
+              <Label htmlFor="coupon-enabled">
+                Give a discount on the member's next renewal
+              </Label>
+            </div>
+            {settings.couponEnabled && (
+              <div className="grid grid-cols-2 gap-4 max-w-md">
+                <div className="space-y-2">
+                  <Label htmlFor="coupon-discount">Discount (₹)</Label>
+                  <Input
+                    id="coupon-discount"
+                    type="number"
+                    min={1}
+                    value={settings.couponDiscount}
+                    onChange={(e) =>
+                      update({ couponDiscount: Number(e.target.value) })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="coupon-valid-days">Valid for (days)</Label>
+                  <Input
+                    id="coupon-valid-days"
+                    type="number"
+                    min={1}
+                    value={settings.couponValidDays}
+                    onChange={(e) =>
+                      update({ couponValidDays: Number(e.target.value) })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button
+                disabled={saveMutation.isPending || !isDirty || !isValid}
+                onClick={() => saveMutation.mutate()}
+              >
+                {saveMutation.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { saveMessageTemplate } from "@/lib/firestore";
+import { MessageType } from "@/lib/messages";
+import {
+  PLACEHOLDERS,
+  TEMPLATES,
+  TemplateValues,
+  findUnknownPlaceholders,
+  renderTemplate,
+} from "@/lib/templates";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+
+interface TemplateEditorProps {
+  type: MessageType;
+  body: string;
+  previewValues: TemplateValues;
+}
+
+export default function TemplateEditor({
+  type,
+  body,
+  previewValues,
+}: TemplateEditorProps) {
+  const { toast } = useToast();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [draft, setDraft] = useState(body);
+  const template = TEMPLATES[type];
+  const unknownPlaceholders = findUnknownPlaceholders(draft, type);
+
+  useEffect(() => {
+    setDraft(body);
+  }, [body]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveMessageTemplate(type, draft),
+    onSuccess: () => {
+      toast({
+        title: "Template saved",
+        description: `The ${template.label.toLowerCase()} template has been updated.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["message-templates"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Insert at the cursor so placeholders can be dropped mid-sentence
+  const insertPlaceholder = (placeholder: string) => {
+    const textarea = textareaRef.current;
+    const token = `{{${placeholder}}}`;
+    const start = textarea?.selectionStart ?? draft.length;
+    const end = textarea?.selectionEnd ?? draft.length;
+    setDraft(draft.slice(0, start) + token + draft.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="space-y-3">
+        <p className="text-sm text-muted-foreground">{template.description}</p>
+        <Textarea
+          ref={textareaRef}
+          rows={8}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <div className="flex flex-wrap gap-2">
+          {template.placeholders.map((placeholder) => (
+            <Button
+              key={placeholder}
+              type="button"
+              size="sm"
+              variant="outline"
+              title={PLACEHOLDERS[placeholder]}
+              onClick={() => insertPlaceholder(placeholder)}
+            >
+              {`{{${placeholder}}}`}
+            </Button>
+          ))}
+        </div>
+        {unknownPlaceholders.length > 0 && (
+          <p className="text-sm font-medium text-destructive">
+            Unknown placeholder
+            {unknownPlaceholders.length > 1 ? "s" : ""}:{" "}
+            {unknownPlaceholders.map((name) => `{{${name}}}`).join(", ")}
+          </p>
+        )}
+        <div className="flex justify-end gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setDraft(template.defaultBody)}
+          >
+            Reset to Default
+          </Button>
+          <Button
+            type="button"
+            disabled={
+              saveMutation.isPending ||
+              draft === body ||
+              !draft.trim() ||
+              unknownPlaceholders.length > 0
+            }
+            onClick={() => saveMutation.mutate()}
+          >
+            {saveMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-2">Preview</p>
+        <div className="rounded-lg bg-[#dcf8c6] p-3 text-sm whitespace-pre-wrap shadow-sm">
+          {renderTemplate(draft, previewValues)}
+        </div>
+      </div>
+    </div>
+  );
+}
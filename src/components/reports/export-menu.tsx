@@ -0,0 +1,48 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { EXPORT_FORMATS, ExportFormat } from "@/lib/export";
+import { Download, Loader2 } from "lucide-react";
+
+interface ExportMenuProps {
+  onExport: (exportFormat: ExportFormat) => void;
+  disabled?: boolean;
+  isExporting?: boolean;
+  label?: string;
+}
+
+export default function ExportMenu({
+  onExport,
+  disabled,
+  isExporting,
+  label = "Export",
+}: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={disabled || isExporting}>
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((exportFormat) => (
+          <DropdownMenuItem
+            key={exportFormat}
+            onClick={() => onExport(exportFormat)}
+          >
+            {EXPORT_FORMATS[exportFormat]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
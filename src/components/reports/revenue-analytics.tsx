@@ -0,0 +1,292 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  useOutstandingDues,
+  useRevenueAnalytics,
+} from "@/hooks/use-revenue-analytics";
+import { DateRange, getPercentChange } from "@/lib/revenue";
+import { cn } from "@/lib/utils";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Loader2, TrendingDown, TrendingUp } from "lucide-react";
+
+const COLORS = [
+  "hsl(221 83% 53%)",
+  "hsl(142 71% 45%)",
+  "hsl(38 92% 50%)",
+  "hsl(280 65% 60%)",
+  "hsl(0 84% 60%)",
+];
+
+const formatAmount = (amount: number) =>
+  `₹${Math.round(amount).toLocaleString("en-IN")}`;
+
+const revenueConfig = {
+  revenue: { label: "Revenue", color: COLORS[0] },
+} satisfies ChartConfig;
+
+const membershipsConfig = {
+  newMembers: { label: "New", color: COLORS[1] },
+  renewals: { label: "Renewed", color: COLORS[0] },
+} satisfies ChartConfig;
+
+interface KpiCardProps {
+  title: string;
+  value: string;
+  current?: number;
+  previous?: number;
+  detail?: string;
+}
+
+function KpiCard({ title, value, current, previous, detail }: KpiCardProps) {
+  const change =
+    current !== undefined && previous !== undefined
+      ? getPercentChange(current, previous)
+      : null;
+
+  return (
+    <Card>
+      <CardContent className="p-3 md:p-6">
+        <p className="text-xs md:text-sm text-muted-foreground">{title}</p>
+        <p className="text-lg md:text-2xl font-bold text-gray-900">{value}</p>
+        {change !== null ? (
+          <p
+            className={cn(
+              "flex items-center gap-1 text-xs",
+              change >= 0 ? "text-green-600" : "text-red-600"
+            )}
+          >
+            {change >= 0 ? (
+              <TrendingUp className="h-3 w-3" />
+            ) : (
+              <TrendingDown className="h-3 w-3" />
+            )}
+            {Math.abs(change).toFixed(0)}% vs previous period
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {detail ?? "No data for previous period"}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChartCard({
+  title,
+  description,
+  isEmpty,
+  children,
+}: {
+  title: string;
+  description: string;
+  isEmpty: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <Card>
+      <CardHeader className="p-2 md:p-6">
+        <CardTitle className="text-base md:text-xl">{title}</CardTitle>
+        <CardDescription className="text-xs md:text-sm">
+          {description}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-2 md:p-6 pt-0">
+        {isEmpty ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">
+            No data for this period
+          </p>
+        ) : (
+          children
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface RevenueAnalyticsProps {
+  range: DateRange;
+  enabled: boolean;
+}
+
+export default function RevenueAnalytics({
+  range,
+  enabled,
+}: RevenueAnalyticsProps) {
+  const { data, isLoading } = useRevenueAnalytics(range, enabled);
+  const { data: dues } = useOutstandingDues(enabled);
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center my-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { current, previous } = data;
+  const planConfig = Object.fromEntries(
+    current.byPlan.map(({ plan }, index) => [
+      plan,
+      { label: plan, color: COLORS[index % COLORS.length] },
+    ])
+  ) satisfies ChartConfig;
+  const modeConfig = Object.fromEntries(
+    current.byMode.map(({ mode, label }, index) => [
+      mode,
+      { label, color: COLORS[index % COLORS.length] },
+    ])
+  ) satisfies ChartConfig;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <KpiCard
+          title="Revenue"
+          value={formatAmount(current.revenue)}
+          current={current.revenue}
+          previous={previous.revenue}
+        />
+        <KpiCard
+          title="New Members"
+          value={String(current.newMembers)}
+          current={current.newMembers}
+          previous={previous.newMembers}
+        />
+        <KpiCard
+          title="Renewals"
+          value={String(current.renewals)}
+          current={current.renewals}
+          previous={previous.renewals}
+        />
+        <KpiCard
+          title="Outstanding Dues"
+          value={dues ? formatAmount(dues.total) : "-"}
+          detail={
+            dues ? `${dues.members} members owe for their current term` : ""
+          }
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <ChartCard
+          title="Monthly Revenue"
+          description={`${formatAmount(current.revenue)} from ${current.payments} payments, ${formatAmount(current.discounts)} in discounts`}
+          isEmpty={current.payments === 0}
+        >
+          <ChartContainer config={revenueConfig} className="h-64 w-full">
+            <BarChart data={current.byMonth}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={60} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="New vs Renewed"
+          description="Members who joined and memberships renewed each month"
+          isEmpty={current.newMembers === 0 && current.renewals === 0}
+        >
+          <ChartContainer config={membershipsConfig} className="h-64 w-full">
+            <BarChart data={current.byMonth}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar
+                dataKey="newMembers"
+                stackId="memberships"
+                fill="var(--color-newMembers)"
+              />
+              <Bar
+                dataKey="renewals"
+                stackId="memberships"
+                fill="var(--color-renewals)"
+                radius={[4, 4, 0, 0]}
+              />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="Revenue by Plan"
+          description="Payments collected against each membership plan"
+          isEmpty={current.byPlan.length === 0}
+        >
+          <ChartContainer config={planConfig} className="h-64 w-full">
+            <BarChart data={current.byPlan} layout="vertical">
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" tickLine={false} axisLine={false} />
+              <YAxis
+                type="category"
+                dataKey="plan"
+                tickLine={false}
+                axisLine={false}
+                width={100}
+              />
+              <ChartTooltip
+                content={<ChartTooltipContent nameKey="plan" hideLabel />}
+              />
+              <Bar dataKey="revenue" radius={4}>
+                {current.byPlan.map(({ plan }, index) => (
+                  <Cell key={plan} fill={COLORS[index % COLORS.length]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="Collection by Payment Mode"
+          description="How members paid in this period"
+          isEmpty={current.byMode.length === 0}
+        >
+          <ChartContainer config={modeConfig} className="h-64 w-full">
+            <PieChart>
+              <ChartTooltip
+                content={<ChartTooltipContent nameKey="mode" hideLabel />}
+              />
+              <Pie
+                data={current.byMode}
+                dataKey="amount"
+                nameKey="mode"
+                innerRadius={50}
+              >
+                {current.byMode.map(({ mode }) => (
+                  <Cell key={mode} fill={`var(--color-${mode})`} />
+                ))}
+              </Pie>
+              <ChartLegend content={<ChartLegendContent nameKey="mode" />} />
+            </PieChart>
+          </ChartContainer>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
@@ -14,15 +14,17 @@ import {
   confirmPasswordReset,
   ActionCodeSettings,
 } from "firebase/auth";
-import { getDocs, collection } from "firebase/firestore";
-import { auth, db } from "@/lib/firebase";
+import { auth } from "@/lib/firebase";
 import { useToast } from "@/hooks/use-toast";
 import { User } from "@/lib/types";
-import { FIRESTORE_COLLECTIONS } from "@/lib/firestore";
+import { getUserProfile, setActiveGymId } from "@/lib/firestore";
+import { queryClient } from "@/lib/queryClient";
 
 type AuthContextType = {
   user: User | null;
   isLoading: boolean;
+  // Set when Firebase signed someone in but no gym profile matches their uid
+  profileError: string | null;
   loginMutation: {
     mutate: (data: { email: string; password: string }) => Promise<void>;
     isPending: boolean;
@@ -32,7 +34,7 @@ type AuthContextType = {
     isPending: boolean;
   };
   registerMutation: {
-    mutate: (data: Omit<User, "id" | "createdAt">) => Promise<void>;
+    mutate: (data: UserData) => Promise<void>;
     isPending: boolean;
   };
   forgotPasswordMutation: {
@@ -57,6 +59,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [profileError, setProfileError] = useState<string | null>(null);
   const [isLoginPending, setIsLoginPending] = useState(false);
   const [isLogoutPending, setIsLogoutPending] = useState(false);
   const [isRegisterPending, setIsRegisterPending] = useState(false);
@@ -66,17 +69,38 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
       if (firebaseUser) {
-        const gymsSnapshot = await getDocs(
-          collection(db, FIRESTORE_COLLECTIONS.GYMS)
-        );
+        setIsLoading(true);
+        try {
+          const profile = await getUserProfile(firebaseUser.uid);
 
-        if (!gymsSnapshot.empty) {
-          const firstGym = gymsSnapshot.docs[0].data() as User;
-          setUser(firstGym);
-        } else {
+          if (profile) {
+            setActiveGymId(profile.gymId);
+            setProfileError(null);
+            setUser(profile);
+          } else {
+            setActiveGymId(null);
+            setProfileError(
+              `No gym profile is linked to ${
+                firebaseUser.email || "this account"
+              }. Ask the gym owner to add you as a trainer.`
+            );
+            setUser(null);
+          }
+        } catch (error) {
+          console.error("Error loading user profile:", error);
+          setActiveGymId(null);
+          setProfileError(
+            error instanceof Error
+              ? error.message
+              : "Failed to load your profile"
+          );
           setUser(null);
         }
       } else {
+        // Drop cached data from the previous gym's session
+        setActiveGymId(null);
+        queryClient.clear();
+        setProfileError(null);
         setUser(null);
       }
       setIsLoading(false);
@@ -239,6 +263,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{
         user,
         isLoading,
+        profileError,
         loginMutation,
         logoutMutation,
         registerMutation,
@@ -0,0 +1,93 @@
+import { useQuery } from "@tanstack/react-query";
+import { addDays } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient } from "@/lib/queryClient";
+import {
+  getBirthdaySettings,
+  getMembers,
+  getMembershipPlans,
+  getMessageTemplates,
+  recordBirthday,
+} from "@/lib/firestore";
+import { toDayKey } from "@/lib/attendance";
+import { getUpcomingBirthdays } from "@/lib/birthdays";
+import { getMemberTemplateValues, renderTemplate } from "@/lib/templates";
+import { Member } from "@shared/schema";
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+// Greet today's birthdays and issue their coupons, as the settings allow.
+// Returns how many members were handled.
+export const runBirthdays = async (gymName: string | null | undefined) => {
+  const settings = await getBirthdaySettings();
+  if (!settings.sendGreetings && !settings.couponEnabled) return 0;
+
+  const [members, plans, templates] = await Promise.all([
+    getMembers().then((members) => members as unknown as Member[]),
+    getMembershipPlans(),
+    getMessageTemplates(),
+  ]);
+  const today = new Date();
+  const discount = settings.couponEnabled ? settings.couponDiscount : 0;
+
+  let handled = 0;
+  for (const { member } of getUpcomingBirthdays(members, today, 1)) {
+    const plan = plans.find((plan) => plan.id === member.membershipPlanId);
+    const body = settings.sendGreetings
+      ? renderTemplate(templates.birthday, {
+          ...getMemberTemplateValues(member, plan?.name, gymName),
+          discount: discount > 0 ? `₹${discount}` : "",
+        })
+      : null;
+    const coupon =
+      discount > 0
+        ? {
+            memberId: String(member.id),
+            reason: "birthday" as const,
+            discount,
+            expiresOn: toDayKey(addDays(today, settings.couponValidDays)),
+          }
+        : null;
+
+    if (
+      await recordBirthday(
+        { id: String(member.id), name: member.name, phone: member.phone },
+        today.getFullYear(),
+        { body, coupon }
+      )
+    ) {
+      handled++;
+    }
+  }
+  if (handled > 0) {
+    queryClient.invalidateQueries({ queryKey: ["messages"] });
+    queryClient.invalidateQueries({ queryKey: ["message-queue"] });
+  }
+  return handled;
+};
+
+export const useBirthdaySettings = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["birthday-settings"],
+    queryFn: getBirthdaySettings,
+    enabled: !!user,
+  });
+};
+
+// Runs the birthday job from any signed-in staff browser that can see
+// members, checking again every hour. The birthday log makes reruns safe.
+export const useBirthdayScheduler = () => {
+  const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+
+  useQuery({
+    queryKey: ["birthdays", "run", toDayKey()],
+    queryFn: () => runBirthdays(user?.gymName),
+    enabled: !!user && hasPermission("canViewMembers"),
+    refetchInterval: RUN_INTERVAL_MS,
+    refetchIntervalInBackground: true,
+    retry: false,
+  });
+};
@@ -0,0 +1,8 @@
+import { useQuery } from "@tanstack/react-query";
+import { getDashboardSettings } from "@/lib/firestore";
+
+export const useDashboardSettings = () =>
+  useQuery({
+    queryKey: ["dashboard-settings"],
+    queryFn: getDashboardSettings,
+  });
@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { getActiveGymId, getMembershipPlans } from "@/lib/firestore";
+import { exportIdCardsPdf } from "@/lib/id-card";
+import { createMemberQrCode } from "@/lib/member-token";
+import { queryClient } from "@/lib/queryClient";
+import { useMemberCardKey } from "@/hooks/use-member-qr";
+import { Member } from "@shared/schema";
+
+// Builds print-ready ID cards for one or more members and downloads them as
+// a single PDF
+export const useIdCardExport = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: cardKey } = useMemberCardKey();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportCards = async (members: Member[], fileName: string) => {
+    if (!cardKey || members.length === 0) return;
+    setIsExporting(true);
+    try {
+      const plans = await queryClient.fetchQuery({
+        queryKey: ["membershipPlans"],
+        queryFn: () => getMembershipPlans(),
+      });
+      const cards = await Promise.all(
+        members.map(async (member) => ({
+          memberId: String(member.id),
+          name: member.name,
+          photo: member.photo,
+          planName:
+            plans.find((plan) => plan.id === member.membershipPlanId)?.name ??
+            "-",
+          validUntil: member.nextBillDate,
+          qrCode: await createMemberQrCode(
+            getActiveGymId(),
+            String(member.id),
+            cardKey
+          ),
+        }))
+      );
+      await exportIdCardsPdf(cards, user?.gymName || "Gym Member", fileName);
+    } catch (error) {
+      console.error("Error exporting ID cards:", error);
+      toast({
+        title: "Failed to export ID cards",
+        description: "There was an error creating the PDF. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return { exportCards, isExporting, isReady: !!cardKey };
+};
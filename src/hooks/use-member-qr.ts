@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { getActiveGymId, getMemberCardKey } from "@/lib/firestore";
+import { createMemberQrCode } from "@/lib/member-token";
+
+export const useMemberCardKey = () =>
+  useQuery({
+    queryKey: ["member-card-key"],
+    queryFn: getMemberCardKey,
+    staleTime: Infinity,
+  });
+
+// QR code image (data URL) for a member's ID card
+export const useMemberQr = (memberId?: string) => {
+  const { data: cardKey } = useMemberCardKey();
+
+  return useQuery({
+    queryKey: ["member-qr", memberId],
+    queryFn: () => createMemberQrCode(getActiveGymId(), memberId!, cardKey!),
+    enabled: !!memberId && !!cardKey,
+    staleTime: Infinity,
+  });
+};
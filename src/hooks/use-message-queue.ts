@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useWhatsAppClient } from "@/hooks/use-whatsapp";
+import { queryClient } from "@/lib/queryClient";
+import {
+  claimMessage,
+  getDueMessages,
+  markMessageFailed,
+  markMessageSent,
+} from "@/lib/firestore";
+import { WhatsAppClient } from "@/lib/whatsapp";
+
+const POLL_INTERVAL_MS = 30 * 1000;
+
+const deliverDueMessages = async (client: WhatsAppClient) => {
+  const messages = await getDueMessages();
+  if (messages.length === 0) return 0;
+
+  for (const message of messages) {
+    if (!(await claimMessage(message.id))) continue;
+
+    const attempts = message.attempts + 1;
+    try {
+      const result = await client.sendMessage(message.phone, message.body);
+      if (result.success) {
+        await markMessageSent(message.id, attempts);
+      } else {
+        await markMessageFailed(
+          message.id,
+          attempts,
+          result.error || "The gateway could not send the message"
+        );
+      }
+    } catch (error) {
+      await markMessageFailed(message.id, attempts, (error as Error).message);
+    }
+  }
+  queryClient.invalidateQueries({ queryKey: ["messages"] });
+  return messages.length;
+};
+
+// Delivers queued WhatsApp messages from any signed-in staff browser, polling
+// for messages that are due (new ones, and failed ones whose backoff has
+// passed). Invalidate ["message-queue"] after queueing to deliver right away.
+export const useMessageQueue = () => {
+  const { user } = useAuth();
+  const { client } = useWhatsAppClient();
+
+  useQuery({
+    queryKey: ["message-queue"],
+    queryFn: () => deliverDueMessages(client!),
+    enabled: !!user && !!client,
+    refetchInterval: POLL_INTERVAL_MS,
+    refetchIntervalInBackground: true,
+    retry: false,
+  });
+};
@@ -0,0 +1,8 @@
+import { useQuery } from "@tanstack/react-query";
+import { getMessageTemplates } from "@/lib/firestore";
+
+export const useMessageTemplates = () =>
+  useQuery({
+    queryKey: ["message-templates"],
+    queryFn: getMessageTemplates,
+  });
@@ -0,0 +1,45 @@
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
+import { enqueueMessage, getMessageTemplates } from "@/lib/firestore";
+import { getMemberTemplateValues, renderTemplate } from "@/lib/templates";
+
+export interface PaymentReceipt {
+  member: { id: string; name: string; phone: string };
+  planName?: string;
+  amount: number;
+  // The member's bill date once the payment is recorded
+  nextBillDate: string;
+}
+
+// Queue a WhatsApp receipt for a recorded payment. The payment itself has
+// already been saved, so a receipt that cannot be queued is only logged.
+export const usePaymentReceipt = () => {
+  const { user } = useAuth();
+
+  return async ({ member, planName, amount, nextBillDate }: PaymentReceipt) => {
+    if (amount <= 0) return;
+    try {
+      const templates = await queryClient.fetchQuery({
+        queryKey: ["message-templates"],
+        queryFn: getMessageTemplates,
+      });
+      await enqueueMessage({
+        memberId: member.id,
+        memberName: member.name,
+        phone: member.phone,
+        type: "payment_receipt",
+        body: renderTemplate(templates.payment_receipt, {
+          ...getMemberTemplateValues(
+            { name: member.name, nextBillDate },
+            planName,
+            user?.gymName
+          ),
+          amount: String(amount),
+        }),
+      });
+      queryClient.invalidateQueries({ queryKey: ["message-queue"] });
+    } catch (error) {
+      console.error("Error queueing WhatsApp payment receipt:", error);
+    }
+  };
+};
@@ -1,42 +1,53 @@
 import { useAuth } from "./use-auth";
 import { useQuery } from "@tanstack/react-query";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import { FIRESTORE_COLLECTIONS } from "@/lib/firestore";
+import { FIRESTORE_COLLECTIONS, getGymDoc } from "@/lib/firestore";
 import { TrainerPermissions } from "@/lib/types";
+import { normalizePermissions } from "@/lib/permissions";
+
+// What a route or action requires: a trainer permission, or the gym owner
+export type Access = keyof TrainerPermissions | "admin";
 
 export function usePermissions() {
   const { user } = useAuth();
 
-  const { data: permissions } = useQuery({
+  const { data: permissions, isLoading } = useQuery({
     queryKey: ["trainer-permissions", user?.trainerId],
     queryFn: async () => {
       if (!user?.trainerId) return null;
 
-      const trainerRef = doc(
-        db,
+      const trainer = await getGymDoc(
         FIRESTORE_COLLECTIONS.TRAINERS,
         user.trainerId
       );
-      const trainerSnap = await getDoc(trainerRef);
 
-      if (!trainerSnap.exists()) return null;
+      // Deactivated trainers keep their account but lose every permission
+      if (!trainer || trainer.isActive === false) return null;
 
-      return trainerSnap.data().permissions as TrainerPermissions;
+      return normalizePermissions(trainer.permissions);
     },
     enabled: !!user?.trainerId,
   });
 
+  const isAdmin = user?.role === "admin";
+
   const hasPermission = (permission: keyof TrainerPermissions) => {
-    if (user?.role === "admin") return true;
+    if (isAdmin) return true;
     if (!permissions) return false;
     return permissions[permission] || false;
   };
 
+  const canAccess = (access?: Access) => {
+    if (!access) return true;
+    if (access === "admin") return isAdmin;
+    return hasPermission(access);
+  };
+
   return {
     permissions,
     hasPermission,
-    isAdmin: true,
+    canAccess,
+    isAdmin,
     isTrainer: user?.role === "trainer",
+    isLoading: !!user?.trainerId && isLoading,
   };
 }
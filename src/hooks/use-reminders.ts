@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useWhatsAppClient } from "@/hooks/use-whatsapp";
+import { queryClient } from "@/lib/queryClient";
+import {
+  enqueueReminder,
+  getMembers,
+  getMembershipPlans,
+  getMessageTemplates,
+  getReminderRules,
+  isReminderSent,
+} from "@/lib/firestore";
+import { toDayKey } from "@/lib/attendance";
+import { DueReminder, findDueReminders } from "@/lib/reminders";
+import { getMemberTemplateValues, renderTemplate } from "@/lib/templates";
+import { Member } from "@shared/schema";
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface PlannedReminder extends DueReminder {
+  body: string;
+}
+
+// Due reminders for `day` that have not been sent yet, with their message
+const planReminders = async (
+  day: Date,
+  gymName: string | null | undefined
+): Promise<PlannedReminder[]> => {
+  const [members, plans, rules, templates] = await Promise.all([
+    getMembers().then((members) => members as unknown as Member[]),
+    getMembershipPlans(),
+    getReminderRules(),
+    getMessageTemplates(),
+  ]);
+
+  const dueReminders = findDueReminders(members, rules, day);
+  const sent = await Promise.all(dueReminders.map(isReminderSent));
+
+  return dueReminders
+    .filter((_, index) => !sent[index])
+    .map((reminder) => {
+      const plan = plans.find(
+        (plan) => plan.id === reminder.member.membershipPlanId
+      );
+      return {
+        ...reminder,
+        body: renderTemplate(
+          templates[reminder.rule.type],
+          getMemberTemplateValues(reminder.member, plan?.name, gymName)
+        ),
+      };
+    });
+};
+
+// Queue today's reminders; returns how many were queued
+export const runReminders = async (gymName: string | null | undefined) => {
+  const reminders = await planReminders(new Date(), gymName);
+  let queued = 0;
+  for (const reminder of reminders) {
+    if (await enqueueReminder(reminder, reminder.body)) queued++;
+  }
+  if (queued > 0) {
+    queryClient.invalidateQueries({ queryKey: ["messages"] });
+    queryClient.invalidateQueries({ queryKey: ["message-queue"] });
+  }
+  return queued;
+};
+
+export const useReminderRules = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["reminder-rules"],
+    queryFn: getReminderRules,
+    enabled: !!user,
+  });
+};
+
+// Who will be reminded on `day` with the saved rules
+export const useReminderPreview = (day: Date) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["reminders", "preview", toDayKey(day)],
+    queryFn: () => planReminders(day, user?.gymName),
+    enabled: !!user,
+  });
+};
+
+// Queues the day's reminders from any signed-in staff browser that can see
+// members, checking again every hour. Duplicates are prevented by the
+// reminder log, so several browsers may run it at once.
+export const useReminderScheduler = () => {
+  const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const { client } = useWhatsAppClient();
+
+  useQuery({
+    queryKey: ["reminders", "run", toDayKey()],
+    queryFn: () => runReminders(user?.gymName),
+    enabled: !!user && !!client && hasPermission("canViewMembers"),
+    refetchInterval: RUN_INTERVAL_MS,
+    refetchIntervalInBackground: true,
+    retry: false,
+  });
+};
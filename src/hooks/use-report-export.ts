@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getAttendanceInRange,
+  getMembers,
+  getMembershipPlans,
+  getPaymentsInRange,
+} from "@/lib/firestore";
+import { ExportFormat, exportReport } from "@/lib/export";
+import { PAYMENT_MODES } from "@/lib/payments";
+import { queryClient } from "@/lib/queryClient";
+import { toDayKey } from "@/lib/attendance";
+import { DateRange, toDateBounds } from "@/lib/revenue";
+import { Member } from "@shared/schema";
+
+const formatDay = (day: string) =>
+  day ? format(new Date(day), "dd MMM yyyy") : "-";
+
+const getMemberStatus = (member: Member) => {
+  if (!member.isActive) return "Inactive";
+  return member.nextBillDate < toDayKey() ? "Expired" : "Active";
+};
+
+const fetchPlanNames = async () => {
+  const plans = await queryClient.fetchQuery({
+    queryKey: ["membershipPlans"],
+    queryFn: () => getMembershipPlans(),
+  });
+  return new Map(plans.map((plan) => [plan.id, plan.name]));
+};
+
+const fetchMemberNames = async () => {
+  const members = (await queryClient.fetchQuery({
+    queryKey: ["members", "all"],
+    queryFn: async () => (await getMembers()) as unknown as Member[],
+  })) as Member[];
+  return new Map(members.map((member) => [String(member.id), member.name]));
+};
+
+const describeRange = ({ from, to }: DateRange) =>
+  `${formatDay(from)} to ${formatDay(to)}`;
+
+// Builds member, payment and attendance reports and downloads them as CSV,
+// Excel or a printable PDF with the gym's name in the header
+export const useReportExport = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isExporting, setIsExporting] = useState(false);
+  const gymName = user?.gymName || "Gym";
+
+  const run = async (build: () => Promise<void>) => {
+    setIsExporting(true);
+    try {
+      await build();
+    } catch (error) {
+      console.error("Error exporting report:", error);
+      toast({
+        title: "Failed to export report",
+        description: "There was an error creating the file. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportMembers = (
+    loadMembers: () => Promise<Member[]>,
+    exportFormat: ExportFormat,
+    description = "All members"
+  ) =>
+    run(async () => {
+      const [members, planNames] = await Promise.all([
+        loadMembers(),
+        fetchPlanNames(),
+      ]);
+      exportReport(
+        {
+          title: "Members",
+          gymName,
+          subtitle: `${description} · ${members.length} members`,
+          fileName: `members_${toDayKey()}`,
+          rows: members,
+          columns: [
+            {
+              header: "ID",
+              value: (member) => String(member.id).padStart(4, "0"),
+            },
+            { header: "Name", value: (member) => member.name, width: 2 },
+            { header: "Mobile", value: (member) => member.phone, width: 1.3 },
+            {
+              header: "Plan",
+              value: (member) =>
+                planNames.get(String(member.membershipPlanId)) ?? "-",
+              width: 1.5,
+            },
+            {
+              header: "Joined",
+              value: (member) => formatDay(member.joiningDate),
+            },
+            {
+              header: "Next Bill",
+              value: (member) => formatDay(member.nextBillDate),
+            },
+            { header: "Status", value: getMemberStatus },
+            {
+              header: "Paid",
+              value: (member) => (member.isPaid ? "Yes" : "No"),
+            },
+          ],
+        },
+        exportFormat
+      );
+    });
+
+  const exportPayments = (range: DateRange, exportFormat: ExportFormat) =>
+    run(async () => {
+      const [startDate, endDate] = toDateBounds(range);
+      const [payments, memberNames, planNames] = await Promise.all([
+        getPaymentsInRange(startDate, endDate),
+        fetchMemberNames(),
+        fetchPlanNames(),
+      ]);
+      const total = payments.reduce((sum, payment) => sum + payment.amount, 0);
+      const totalDiscount = payments.reduce(
+        (sum, payment) => sum + (payment.discount || 0),
+        0
+      );
+
+      exportReport(
+        {
+          title: "Payment Ledger",
+          gymName,
+          subtitle: `${describeRange(range)} · ${payments.length} payments`,
+          fileName: `payments_${range.from}_${range.to}`,
+          rows: payments,
+          columns: [
+            {
+              header: "Date",
+              value: (payment) => format(payment.paidAt, "dd MMM yyyy"),
+            },
+            {
+              header: "Member",
+              value: (payment) =>
+                memberNames.get(payment.memberId) ?? "Deleted member",
+              width: 2,
+            },
+            {
+              header: "Plan",
+              value: (payment) => planNames.get(payment.planId) ?? "-",
+              width: 1.5,
+            },
+            {
+              header: "Period",
+              value: (payment) =>
+                `${formatDay(payment.periodStart)} - ${formatDay(payment.periodEnd)}`,
+              width: 2.2,
+            },
+            {
+              header: "Mode",
+              value: (payment) => PAYMENT_MODES[payment.mode] ?? payment.mode,
+            },
+            {
+              header: "Collected By",
+              value: (payment) => payment.collectedBy?.name ?? "-",
+              width: 1.3,
+            },
+            {
+              header: "Discount",
+              value: (payment) => payment.discount || 0,
+              align: "right",
+            },
+            {
+              header: "Amount",
+              value: (payment) => payment.amount,
+              align: "right",
+            },
+          ],
+          footer: [["Total", "", "", "", "", "", totalDiscount, total]],
+        },
+        exportFormat
+      );
+    });
+
+  const exportAttendance = (range: DateRange, exportFormat: ExportFormat) =>
+    run(async () => {
+      const [startDate, endDate] = toDateBounds(range);
+      const visits = await getAttendanceInRange(startDate, endDate);
+      const uniqueMembers = new Set(visits.map((visit) => visit.memberId));
+
+      exportReport(
+        {
+          title: "Attendance",
+          gymName,
+          subtitle: `${describeRange(range)} · ${visits.length} visits by ${uniqueMembers.size} members`,
+          fileName: `attendance_${range.from}_${range.to}`,
+          rows: visits,
+          columns: [
+            { header: "Date", value: (visit) => formatDay(visit.day) },
+            { header: "Member", value: (visit) => visit.memberName, width: 2 },
+            {
+              header: "Check-in",
+              value: (visit) => format(visit.date, "h:mm a"),
+            },
+            {
+              header: "Check-out",
+              value: (visit) =>
+                visit.checkOutAt ? format(visit.checkOutAt, "h:mm a") : "-",
+            },
+            {
+              header: "Checked In By",
+              value: (visit) => visit.checkedInBy?.name ?? "-",
+              width: 1.5,
+            },
+          ],
+        },
+        exportFormat
+      );
+    });
+
+  return { exportMembers, exportPayments, exportAttendance, isExporting };
+};
@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  getAllMembersMatching,
+  getJoiningDatesInRange,
+  getMembershipPlans,
+  getPayments,
+  getPaymentsInRange,
+  getRenewalsInRange,
+} from "@/lib/firestore";
+import { getMemberBalance } from "@/lib/payments";
+import { queryClient } from "@/lib/queryClient";
+import {
+  DateRange,
+  getPreviousRange,
+  summarizeRevenue,
+  toDateBounds,
+} from "@/lib/revenue";
+
+const fetchPlans = () =>
+  queryClient.fetchQuery({
+    queryKey: ["membershipPlans"],
+    queryFn: () => getMembershipPlans(),
+  });
+
+const fetchSummary = async (range: DateRange) => {
+  const [startDate, endDate] = toDateBounds(range);
+  const [payments, renewals, joiningDates, plans] = await Promise.all([
+    getPaymentsInRange(startDate, endDate),
+    getRenewalsInRange(startDate, endDate),
+    getJoiningDatesInRange(range.from, range.to),
+    fetchPlans(),
+  ]);
+  return summarizeRevenue(
+    range,
+    payments,
+    renewals,
+    joiningDates,
+    new Map(plans.map((plan) => [plan.id, plan.name]))
+  );
+};
+
+// Revenue for a date range alongside the period of the same length before it
+export const useRevenueAnalytics = (range: DateRange, enabled = true) =>
+  useQuery({
+    queryKey: ["revenue", range.from, range.to],
+    queryFn: async () => {
+      const [current, previous] = await Promise.all([
+        fetchSummary(range),
+        fetchSummary(getPreviousRange(range)),
+      ]);
+      return { current, previous };
+    },
+    enabled,
+  });
+
+// What active members still owe for their current term. Only members flagged
+// unpaid are checked, so this stays cheap on large gyms.
+export const useOutstandingDues = (enabled = true) =>
+  useQuery({
+    queryKey: ["revenue", "outstanding"],
+    queryFn: async () => {
+      const [members, plans] = await Promise.all([
+        getAllMembersMatching({ search: "", filter: "Not Paid" }),
+        fetchPlans(),
+      ]);
+      const balances = await Promise.all(
+        members.map(async (member) => {
+          const plan =
+            plans.find((plan) => plan.id === member.membershipPlanId) ?? null;
+          return getMemberBalance(
+            member,
+            plan,
+            await getPayments(String(member.id))
+          );
+        })
+      );
+      const owing = balances.filter((balance) => balance.outstanding > 0);
+      return {
+        total: owing.reduce((sum, balance) => sum + balance.outstanding, 0),
+        members: owing.length,
+      };
+    },
+    enabled,
+  });
@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { getMessagingSettings } from "@/lib/firestore";
+import { createWhatsAppClient, isGatewayConfigured } from "@/lib/whatsapp";
+
+export const useMessagingSettings = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["messaging-settings"],
+    queryFn: getMessagingSettings,
+    enabled: !!user,
+  });
+};
+
+// Client for the gym's WhatsApp gateway, or null until one is configured
+export const useWhatsAppClient = () => {
+  const { data: settings, isLoading } = useMessagingSettings();
+  const client = useMemo(
+    () =>
+      isGatewayConfigured(settings) ? createWhatsAppClient(settings) : null,
+    [settings]
+  );
+
+  return { client, settings, isLoading };
+};
@@ -1,56 +1,37 @@
 import { useQuery } from "@tanstack/react-query";
-import { collection, getDocs, query } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import dayjs from "dayjs";
-import { FIRESTORE_COLLECTIONS } from "@/lib/firestore";
-
-export const useDashboardStats = () => {
+import { addDays, format } from "date-fns";
+import {
+  countExpiredMembers,
+  countExpiringMembers,
+  getMemberStats,
+} from "@/lib/firestore";
+import { toDayKey } from "@/lib/attendance";
+
+// `expiringDays`: days ahead of today that count as "expiring soon"
+export const useDashboardStats = (expiringDays: number, enabled = true) => {
   return useQuery({
-    queryKey: ["dashboard-stats"],
+    queryKey: ["dashboard-stats", expiringDays],
     queryFn: async () => {
-      const membersRef = collection(db, FIRESTORE_COLLECTIONS.MEMBERS);
-      const q = query(membersRef);
-      const snapshot = await getDocs(q);
-
-      const members = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as any[];
-
-      const now = dayjs();
-      const totalMembers = members.length;
-
-      const totalActiveMembers = members.filter(
-        (member) => member.isActive
-      ).length;
-
-      const notPaidMembers = members.filter(
-        (member) => member.isActive && !member.isPaid
-      ).length;
-
-      const monthlyJoined = members.filter((member) =>
-        dayjs(member.createdAt.toDate()).isSame(now, "month")
-      ).length;
-
-      const expiringThreeDays = members.filter((member) => {
-        const nextBill = dayjs(member.nextBillDate);
-        const diff = nextBill.diff(now, "day");
-        return diff >= 0 && diff <= 3;
-      }).length;
-
-      const expiredMembers = members.filter((member) => {
-        const nextBill = dayjs(member.nextBillDate);
-        return nextBill.isBefore(now, "day") && member.isActive;
-      }).length;
+      const today = toDayKey();
+      const [stats, expiringMembers, expiredMembers] = await Promise.all([
+        getMemberStats(),
+        countExpiringMembers(
+          today,
+          toDayKey(addDays(new Date(), expiringDays))
+        ),
+        countExpiredMembers(today),
+      ]);
 
       return {
-        totalMembers,
-        totalActiveMembers,
-        notPaidMembers,
-        monthlyJoined,
-        expiringThreeDays,
+        totalMembers: stats.total,
+        totalActiveMembers: stats.active,
+        notPaidMembers: stats.unpaid,
+        monthlyJoined: stats.joinedByMonth[format(new Date(), "yyyy-MM")] ?? 0,
+        expiringMembers,
         expiredMembers,
+        reconciledAt: stats.reconciledAt,
       };
     },
+    enabled,
   });
 };
@@ -1,28 +1,13 @@
 import { useQuery } from "@tanstack/react-query";
-import { collection, getDocs, query } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import dayjs from "dayjs";
-import { FIRESTORE_COLLECTIONS } from "@/lib/firestore";
+import { addDays } from "date-fns";
+import { getExpiringMembers } from "@/lib/firestore";
+import { toDayKey } from "@/lib/attendance";
 
-export const useExpiringMembers = () => {
+export const useExpiringMembers = (days: number, enabled = true) => {
   return useQuery({
-    queryKey: ["expiring-members"],
-    queryFn: async () => {
-      const membersRef = collection(db, FIRESTORE_COLLECTIONS.MEMBERS);
-      const q = query(membersRef);
-      const snapshot = await getDocs(q);
-
-      const members = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as any[];
-
-      const now = dayjs();
-      return members.filter((member) => {
-        const nextBill = dayjs(member.nextBillDate);
-        const diff = nextBill.diff(now, "day");
-        return diff >= 0 && diff <= 3;
-      });
-    },
+    queryKey: ["expiring-members", days],
+    queryFn: () =>
+      getExpiringMembers(toDayKey(), toDayKey(addDays(new Date(), days))),
+    enabled,
   });
 };
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { getAttendanceForDay } from "@/lib/firestore";
+import { toDayKey } from "@/lib/attendance";
+
+export const useTodayAttendance = (enabled = true) => {
+  const today = toDayKey();
+  return useQuery({
+    queryKey: ["attendance", "day", today],
+    queryFn: () => getAttendanceForDay(today),
+    enabled,
+  });
+};
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { getMembers } from "@/lib/firestore";
+import { toDayKey } from "@/lib/attendance";
+import { getUpcomingBirthdays } from "@/lib/birthdays";
+import { Member } from "@shared/schema";
+
+// Members whose birthday falls in the next seven days, starting today
+export const useUpcomingBirthdays = () => {
+  return useQuery({
+    queryKey: ["members", "birthdays", toDayKey()],
+    queryFn: async () => {
+      const members = (await getMembers()) as unknown as Member[];
+      return getUpcomingBirthdays(members);
+    },
+  });
+};
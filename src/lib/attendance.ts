@@ -0,0 +1,50 @@
+import { format } from "date-fns";
+import { FrozenMember, isFrozen } from "@/lib/freezes";
+
+export interface AttendanceRecord {
+  id: string;
+  gymId: string;
+  memberId: string;
+  memberName: string;
+  // Check-in time; also used for date range queries
+  date: Date;
+  // Local "yyyy-MM-dd" day of the visit, for per-day lookups
+  day: string;
+  checkOutAt: Date | null;
+  checkedInBy: { id: string; name: string };
+}
+
+export type CheckInStatus =
+  { allowed: true; warning?: string } | { allowed: false; reason: string };
+
+export const toDayKey = (date: Date = new Date()) => format(date, "yyyy-MM-dd");
+
+// Inactive and frozen members cannot check in at all; members whose term has
+// lapsed are let in only after the desk acknowledges the warning
+export const getCheckInStatus = (
+  member: FrozenMember & { isActive: boolean; nextBillDate: string },
+  today: Date = new Date()
+): CheckInStatus => {
+  if (!member.isActive) {
+    return { allowed: false, reason: "Membership is inactive" };
+  }
+  if (isFrozen(member, today)) {
+    return {
+      allowed: false,
+      reason: `Membership is frozen until ${format(
+        new Date(member.frozenUntil!),
+        "MMM d, yyyy"
+      )}`,
+    };
+  }
+  if (member.nextBillDate < toDayKey(today)) {
+    return {
+      allowed: true,
+      warning: `Membership expired on ${format(
+        new Date(member.nextBillDate),
+        "MMM d, yyyy"
+      )}`,
+    };
+  }
+  return { allowed: true };
+};
@@ -0,0 +1,70 @@
+import {
+  addDays,
+  differenceInYears,
+  getDaysInMonth,
+  parseISO,
+  startOfDay,
+} from "date-fns";
+import { Member } from "@shared/schema";
+
+export interface BirthdaySettings {
+  // Queue the birthday template to members on their birthday
+  sendGreetings: boolean;
+  // Give members a discount on their next renewal
+  couponEnabled: boolean;
+  couponDiscount: number;
+  couponValidDays: number;
+}
+
+export const DEFAULT_BIRTHDAY_SETTINGS: BirthdaySettings = {
+  sendGreetings: false,
+  couponEnabled: false,
+  couponDiscount: 200,
+  couponValidDays: 30,
+};
+
+// The add-member form defaults the date of birth to today, so very recent
+// dates mean it was never filled in
+const MIN_MEMBER_AGE = 5;
+
+const getBirthdayInYear = (dateOfBirth: Date, year: number) => {
+  const month = dateOfBirth.getMonth();
+  const lastDay = getDaysInMonth(new Date(year, month));
+  return new Date(year, month, Math.min(dateOfBirth.getDate(), lastDay));
+};
+
+export interface UpcomingBirthday {
+  member: Member;
+  date: Date;
+  age: number;
+}
+
+// Birthdays in the `days` days starting at `from`, soonest first. Members
+// born on 29 February celebrate on the 28th in other years.
+export const getUpcomingBirthdays = (
+  members: Member[],
+  from: Date = new Date(),
+  days = 7
+): UpcomingBirthday[] => {
+  const start = startOfDay(from);
+  const end = addDays(start, days);
+
+  return members
+    .flatMap((member) => {
+      if (!member.dateOfBirth || member.isActive === false) return [];
+      const dateOfBirth = parseISO(member.dateOfBirth);
+      if (differenceInYears(start, dateOfBirth) < MIN_MEMBER_AGE) return [];
+
+      // Check this year's and next year's birthday so the range can span
+      // New Year
+      return [start.getFullYear(), start.getFullYear() + 1]
+        .map((year) => getBirthdayInYear(dateOfBirth, year))
+        .filter((date) => date >= start && date < end)
+        .map((date) => ({
+          member,
+          date,
+          age: date.getFullYear() - dateOfBirth.getFullYear(),
+        }));
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
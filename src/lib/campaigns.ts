@@ -0,0 +1,71 @@
+import { Member } from "@shared/schema";
+import { toDayKey } from "@/lib/attendance";
+
+// A festival broadcast. Scheduling a campaign writes one queued message per
+// recipient (due at `sendAt`), so delivery, retries and the per-recipient
+// report all come from the message queue.
+export const CAMPAIGN_AUDIENCES = {
+  all: "All members",
+  active: "Active members",
+  expired: "Expired members",
+  plan: "By plan",
+} as const;
+
+export type CampaignAudienceType = keyof typeof CAMPAIGN_AUDIENCES;
+
+export interface CampaignAudience {
+  type: CampaignAudienceType;
+  planId: string | null;
+}
+
+export const CAMPAIGN_STATUSES = {
+  scheduled: "Scheduled",
+  paused: "Paused",
+  cancelled: "Cancelled",
+  // Scheduling stopped part-way; the messages already queued were cancelled
+  failed: "Failed",
+} as const;
+
+export type CampaignStatus = keyof typeof CAMPAIGN_STATUSES;
+
+export interface Campaign {
+  id: string;
+  gymId: string;
+  festivalId: string;
+  festivalTitle: string;
+  audience: CampaignAudience;
+  sendAt: Date;
+  status: CampaignStatus;
+  recipientCount: number;
+  // How many messages were queued before a failed scheduling stopped
+  queuedCount?: number;
+  createdAt: Date;
+}
+
+export type NewCampaign = Pick<
+  Campaign,
+  "festivalId" | "festivalTitle" | "audience" | "sendAt"
+>;
+
+// Members a campaign goes to; members without a phone number are skipped
+export const selectAudience = (
+  members: Member[],
+  audience: CampaignAudience,
+  today: Date = new Date()
+) => {
+  const todayKey = toDayKey(today);
+  return members.filter((member) => {
+    if (!member.phone) return false;
+    const isExpired = member.nextBillDate < todayKey;
+    switch (audience.type) {
+      case "active":
+        return member.isActive !== false && !isExpired;
+      case "expired":
+        return isExpired;
+      case "plan":
+        return member.membershipPlanId === audience.planId;
+      default:
+        return true;
+    }
+  });
+};
@@ -0,0 +1,23 @@
+import { toDayKey } from "@/lib/attendance";
+
+// A discount issued to one member and redeemed on their next renewal
+export interface Coupon {
+  id: string;
+  gymId: string;
+  memberId: string;
+  reason: "birthday";
+  discount: number;
+  // Last day the coupon can be used, "yyyy-MM-dd"
+  expiresOn: string;
+  redeemedAt: Date | null;
+  renewalId: string | null;
+  createdAt: Date;
+}
+
+export type NewCoupon = Pick<
+  Coupon,
+  "memberId" | "reason" | "discount" | "expiresOn"
+>;
+
+export const isCouponUsable = (coupon: Coupon, today: Date = new Date()) =>
+  !coupon.redeemedAt && coupon.expiresOn >= toDayKey(today);
@@ -0,0 +1,87 @@
+import { MemberListFilter } from "@/lib/member-search";
+
+// Every card the dashboard can show. `filter` is the members list filter the
+// card links to, so the list shows exactly the members the card counts.
+export const DASHBOARD_WIDGETS = {
+  totalMembers: {
+    title: "Total Members",
+    icon: "users",
+    color: "primary",
+    filter: null,
+  },
+  activeMembers: {
+    title: "Total Active Members",
+    icon: "users",
+    color: "info",
+    filter: "enrolled",
+  },
+  monthlyJoined: {
+    title: "Monthly Joined",
+    icon: "user-plus",
+    color: "success",
+    filter: "joinedThisMonth",
+  },
+  expiring: {
+    title: "Expiring soon",
+    icon: "clock",
+    color: "warning",
+    filter: "expiring",
+  },
+  expired: {
+    title: "Expired Members",
+    icon: "alert-triangle",
+    color: "danger",
+    filter: "expired",
+  },
+  notPaid: {
+    title: "Payment pending",
+    icon: "credit-card",
+    color: "warning",
+    filter: "Not Paid",
+  },
+  // Visits are not member fields, so this card links to the check-in page
+  todayFootfall: {
+    title: "Today's Footfall",
+    icon: "activity",
+    color: "success",
+    filter: null,
+  },
+} as const satisfies Record<
+  string,
+  {
+    title: string;
+    icon: string;
+    color: string;
+    filter: MemberListFilter | null;
+  }
+>;
+
+export type DashboardWidget = keyof typeof DASHBOARD_WIDGETS;
+
+export const DASHBOARD_WIDGET_IDS = Object.keys(
+  DASHBOARD_WIDGETS
+) as DashboardWidget[];
+
+export const DEFAULT_EXPIRING_DAYS = 3;
+export const MAX_EXPIRING_DAYS = 60;
+
+export interface DashboardSettings {
+  // Cards shown, in display order
+  widgets: DashboardWidget[];
+  expiringDays: number;
+}
+
+export const DEFAULT_DASHBOARD_SETTINGS: DashboardSettings = {
+  widgets: DASHBOARD_WIDGET_IDS,
+  expiringDays: DEFAULT_EXPIRING_DAYS,
+};
+
+// Drop widgets that no longer exist from saved settings
+export const normalizeDashboardSettings = (
+  saved?: Partial<DashboardSettings>
+): DashboardSettings => ({
+  widgets: (saved?.widgets ?? DEFAULT_DASHBOARD_SETTINGS.widgets).filter(
+    (widget) => widget in DASHBOARD_WIDGETS
+  ),
+  expiringDays: saved?.expiringDays ?? DEFAULT_EXPIRING_DAYS,
+});
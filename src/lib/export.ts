@@ -0,0 +1,174 @@
+import { jsPDF } from "jspdf";
+import { utils, writeFile } from "xlsx";
+import { format } from "date-fns";
+
+export const EXPORT_FORMATS = {
+  csv: "CSV",
+  xlsx: "Excel",
+  pdf: "PDF",
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number;
+  // Relative column width in the PDF; defaults to 1
+  width?: number;
+  align?: "left" | "right";
+}
+
+export interface ExportReport<T> {
+  title: string;
+  gymName: string;
+  // Printed under the title, e.g. the date range or active filter
+  subtitle?: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+  // Extra rows printed after the data, e.g. totals
+  footer?: (string | number)[][];
+  fileName: string;
+}
+
+const PAGE_MARGIN = 12;
+const ROW_HEIGHT = 6;
+const HEADER_BAND_HEIGHT = 18;
+
+const toMatrix = <T>({ columns, rows, footer = [] }: ExportReport<T>) => [
+  columns.map((column) => column.header),
+  ...rows.map((row) => columns.map((column) => column.value(row))),
+  ...footer,
+];
+
+const exportSheet = <T>(report: ExportReport<T>, bookType: "csv" | "xlsx") => {
+  const workbook = utils.book_new();
+  utils.book_append_sheet(
+    workbook,
+    utils.aoa_to_sheet(toMatrix(report)),
+    report.title.slice(0, 31)
+  );
+  writeFile(workbook, `${report.fileName}.${bookType}`, { bookType });
+};
+
+// A4 report with the gym name and title on the first page, the column
+// headings repeated on every page and page numbers in the footer
+const exportPdf = <T>(report: ExportReport<T>) => {
+  const pdf = new jsPDF({
+    orientation: report.columns.length > 5 ? "landscape" : "portrait",
+    unit: "mm",
+    format: "a4",
+  });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const tableWidth = pageWidth - PAGE_MARGIN * 2;
+  const totalWeight = report.columns.reduce(
+    (sum, column) => sum + (column.width ?? 1),
+    0
+  );
+  const widths = report.columns.map(
+    (column) => ((column.width ?? 1) / totalWeight) * tableWidth
+  );
+
+  const drawRow = (cells: (string | number)[], y: number, bold = false) => {
+    pdf.setFont("helvetica", bold ? "bold" : "normal");
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, index) => {
+      const text = pdf.splitTextToSize(
+        String(cell ?? ""),
+        widths[index] - 2
+      )[0];
+      if (report.columns[index]?.align === "right") {
+        pdf.text(text, x + widths[index] - 1, y, { align: "right" });
+      } else {
+        pdf.text(text, x + 1, y);
+      }
+      x += widths[index];
+    });
+  };
+
+  const drawTableHeader = (y: number) => {
+    pdf.setFillColor(243, 244, 246);
+    pdf.rect(PAGE_MARGIN, y - 4.2, tableWidth, ROW_HEIGHT, "F");
+    drawRow(
+      report.columns.map((column) => column.header),
+      y,
+      true
+    );
+    return y + ROW_HEIGHT;
+  };
+
+  // Gym header band
+  pdf.setFillColor(17, 24, 39);
+  pdf.rect(0, 0, pageWidth, HEADER_BAND_HEIGHT, "F");
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(16);
+  pdf.text(report.gymName, PAGE_MARGIN, 12);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8);
+  pdf.text(
+    `Generated ${format(new Date(), "MMM d, yyyy h:mm a")}`,
+    pageWidth - PAGE_MARGIN,
+    12,
+    { align: "right" }
+  );
+
+  pdf.setTextColor(17, 24, 39);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(13);
+  pdf.text(report.title, PAGE_MARGIN, HEADER_BAND_HEIGHT + 9);
+  let y = HEADER_BAND_HEIGHT + 9;
+  if (report.subtitle) {
+    pdf.setFont("helvetica", "normal");
+    pdf.setFontSize(9);
+    pdf.setTextColor(107, 114, 128);
+    pdf.text(report.subtitle, PAGE_MARGIN, y + 5);
+    y += 5;
+  }
+
+  pdf.setFontSize(8);
+  pdf.setTextColor(17, 24, 39);
+  y = drawTableHeader(y + 9);
+
+  const body = toMatrix(report).slice(1);
+  const footerStart = report.rows.length;
+  body.forEach((cells, index) => {
+    if (y > pageHeight - PAGE_MARGIN - ROW_HEIGHT) {
+      pdf.addPage();
+      y = drawTableHeader(PAGE_MARGIN + 4);
+    }
+    if (index === footerStart) {
+      pdf.setDrawColor(17, 24, 39);
+      pdf.line(PAGE_MARGIN, y - 4.2, PAGE_MARGIN + tableWidth, y - 4.2);
+    }
+    drawRow(cells, y, index >= footerStart);
+    y += ROW_HEIGHT;
+  });
+  if (report.rows.length === 0) {
+    pdf.setTextColor(107, 114, 128);
+    pdf.text("No records", PAGE_MARGIN + 1, y);
+  }
+
+  const pageCount = pdf.getNumberOfPages();
+  pdf.setFont("helvetica", "normal");
+  pdf.setTextColor(107, 114, 128);
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.text(
+      `Page ${page} of ${pageCount}`,
+      pageWidth / 2,
+      pageHeight - PAGE_MARGIN / 2,
+      { align: "center" }
+    );
+  }
+
+  pdf.save(`${report.fileName}.pdf`);
+};
+
+export const exportReport = <T>(
+  report: ExportReport<T>,
+  exportFormat: ExportFormat
+) => {
+  if (exportFormat === "pdf") exportPdf(report);
+  else exportSheet(report, exportFormat);
+};
@@ -0,0 +1,111 @@
+import { isWithinInterval, setYear, startOfDay } from "date-fns";
+
+// Yearly events repeat on the same calendar date. Lunar-calendar holidays
+// (Diwali, Eid, Holi...) move every year, so they are entered once per year.
+export const FESTIVAL_RECURRENCES = {
+  none: "Does not repeat",
+  yearly: "Every year on this date",
+} as const;
+
+export type FestivalRecurrence = keyof typeof FESTIVAL_RECURRENCES;
+
+export interface FestivalEvent {
+  id: string;
+  date: Date;
+  title: string;
+  message: string;
+  recurrence: FestivalRecurrence;
+  createdAt: Date;
+}
+
+export type NewFestival = Pick<
+  FestivalEvent,
+  "date" | "title" | "message" | "recurrence"
+>;
+
+// One day on which an event falls
+export interface FestivalOccurrence {
+  event: FestivalEvent;
+  date: Date;
+}
+
+// Every occurrence between `start` and `end` (inclusive), in date order
+export const getFestivalOccurrences = (
+  events: FestivalEvent[],
+  start: Date,
+  end: Date
+): FestivalOccurrence[] => {
+  const interval = { start: startOfDay(start), end };
+  return events
+    .flatMap((event) => {
+      if (event.recurrence !== "yearly") {
+        return isWithinInterval(event.date, interval)
+          ? [{ event, date: event.date }]
+          : [];
+      }
+      const occurrences: FestivalOccurrence[] = [];
+      const firstYear = Math.max(
+        event.date.getFullYear(),
+        interval.start.getFullYear()
+      );
+      for (let year = firstYear; year <= end.getFullYear(); year++) {
+        const date = setYear(event.date, year);
+        if (isWithinInterval(date, interval)) occurrences.push({ event, date });
+      }
+      return occurrences;
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// Undo line folding: continuation lines start with a space or tab
+const unfoldIcsLines = (ics: string) =>
+  ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+const unescapeIcsText = (text: string) =>
+  text
+    .replace(/\\n/gi, "\n")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+
+// DTSTART is either a date (20251020) or a date-time (20251020T000000Z); only
+// the day matters here
+const parseIcsDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  return new Date(Number(year), Number(month) - 1, Number(day));
+};
+
+// All-day events from an iCalendar (.ics) file, such as a published Indian
+// holiday calendar. Events without a title or start date are skipped.
+export const parseIcsEvents = (ics: string) => {
+  const events: Omit<NewFestival, "message">[] = [];
+  let current: Partial<Omit<NewFestival, "message">> | null = null;
+
+  for (const line of unfoldIcsLines(ics)) {
+    if (line === "BEGIN:VEVENT") {
+      current = { recurrence: "none" };
+      continue;
+    }
+    if (!current) continue;
+    if (line === "END:VEVENT") {
+      if (current.title && current.date) {
+        events.push(current as Omit<NewFestival, "message">);
+      }
+      current = null;
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).split(";")[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === "SUMMARY") current.title = unescapeIcsText(value);
+    if (name === "DTSTART") current.date = parseIcsDate(value) ?? undefined;
+    if (name === "RRULE" && /FREQ=YEARLY/i.test(value)) {
+      current.recurrence = "yearly";
+    }
+  }
+  return events;
+};
@@ -19,3 +19,8 @@ export const auth = getAuth(app);
 
 // Initialize Cloud Firestore and get a reference to the service
 export const db = getFirestore(app);
+
+// Secondary app used to create staff accounts. Creating a user signs that user
+// in, so doing it on the primary app would sign the gym owner out.
+const accountsApp = initializeApp(firebaseConfig, "accounts");
+export const accountsAuth = getAuth(accountsApp);
@@ -1,4 +1,62 @@
-import { TrainerPermissions } from "@/lib/types";
+import { addDays, startOfMonth } from "date-fns";
+import { InsertMember, Member } from "@shared/schema";
+import { TrainerPermissions, User } from "@/lib/types";
+import { normalizePermissions } from "@/lib/permissions";
+import { getMemberBalance, NewPayment, Payment } from "@/lib/payments";
+import { getRenewalPeriod, Renewal } from "@/lib/renewals";
+import {
+  Freeze,
+  getFreezeDays,
+  getFreezeDaysUsed,
+  getFreezeError,
+  getTermStart,
+  shiftDay,
+  shiftTermDates,
+} from "@/lib/freezes";
+import { AttendanceRecord, toDayKey } from "@/lib/attendance";
+import { generateMemberCardKey } from "@/lib/member-token";
+import {
+  COUNTED_FIELDS,
+  CountedMember,
+  MemberStats,
+  MemberStatsChange,
+  computeMemberStats,
+  getMemberStatsChange,
+  isMemberStatsChangeEmpty,
+  sumMemberStatsChanges,
+} from "@/lib/member-stats";
+import {
+  MEMBER_SEARCH_INDEX_VERSION,
+  MemberListQuery,
+  buildSearchKeywords,
+  toSearchKeyword,
+} from "@/lib/member-search";
+import { WhatsAppGatewaySettings } from "@/lib/whatsapp";
+import {
+  MAX_ATTEMPTS,
+  Message,
+  NewMessage,
+  SEND_LEASE_MS,
+  MessageStatus,
+  MessageType,
+  getRetryDelay,
+} from "@/lib/messages";
+import { TEMPLATES, TEMPLATE_TYPES } from "@/lib/templates";
+import { Campaign, CampaignStatus, NewCampaign } from "@/lib/campaigns";
+import { FestivalEvent, NewFestival } from "@/lib/festivals";
+import {
+  DEFAULT_EXPIRING_DAYS,
+  DashboardSettings,
+  normalizeDashboardSettings,
+} from "@/lib/dashboard";
+import { BirthdaySettings, DEFAULT_BIRTHDAY_SETTINGS } from "@/lib/birthdays";
+import { Coupon, NewCoupon, isCouponUsable } from "@/lib/coupons";
+import {
+  DEFAULT_REMINDER_RULES,
+  DueReminder,
+  ReminderRule,
+  getReminderKey,
+} from "@/lib/reminders";
 import {
   collection,
   addDoc,
@@ -9,12 +67,28 @@ import {
   updateDoc,
   deleteDoc,
   getDoc,
+  setDoc,
   DocumentData,
+  QueryConstraint,
   Timestamp,
   serverTimestamp,
+  writeBatch,
+  WriteBatch,
+  runTransaction,
+  Transaction,
+  orderBy,
+  limit,
+  startAfter,
+  getCountFromServer,
+  increment,
+  QueryDocumentSnapshot,
 } from "firebase/firestore";
-import { db, auth } from "./firebase";
-import { createUserWithEmailAndPassword } from "firebase/auth";
+import { db, auth, accountsAuth } from "./firebase";
+import {
+  createUserWithEmailAndPassword,
+  deleteUser,
+  signOut,
+} from "firebase/auth";
 
 export interface MembershipPlan {
   id: string;
@@ -22,6 +96,8 @@ export interface MembershipPlan {
   durationMonths: number;
   price: number;
   description?: string;
+  // Most days a member may freeze per term; no limit when unset
+  maxFreezeDays?: number | null;
   gymId: string;
   isActive?: boolean;
   createdAt?: Date;
@@ -74,28 +150,135 @@ export const FIRESTORE_COLLECTIONS = {
   PRODUCTS: "products",
   TRAINERS: "trainers",
   FESTIVALS: "festivals",
+  RENEWALS: "renewals",
+  MESSAGING_SETTINGS: "messagingSettings",
+  MESSAGES: "messages",
+  MESSAGE_TEMPLATES: "messageTemplates",
+  REMINDER_SETTINGS: "reminderSettings",
+  REMINDER_LOG: "reminderLog",
+  CAMPAIGNS: "campaigns",
+  BIRTHDAY_SETTINGS: "birthdaySettings",
+  BIRTHDAY_LOG: "birthdayLog",
+  COUPONS: "coupons",
+  MEMBER_STATS: "memberStats",
+  DASHBOARD_SETTINGS: "dashboardSettings",
+  FREEZES: "freezes",
 } as const;
 
-export const addMember = async (memberData: DocumentData) => {
-  const membersRef = collection(db, FIRESTORE_COLLECTIONS.MEMBERS);
-  const docRef = await addDoc(membersRef, {
-    ...memberData,
+// Every gym-owned document carries a `gymId`. The signed-in gym is set once by
+// the AuthProvider and all helpers below read and write through it, so no
+// query can reach another gym's data.
+let activeGymId: string | null = null;
+
+export const setActiveGymId = (gymId: string | null) => {
+  activeGymId = gymId;
+};
+
+export const getActiveGymId = (): string => {
+  if (!activeGymId) throw new Error("No gym selected for this session");
+  return activeGymId;
+};
+
+// Query a collection restricted to the signed-in gym
+export const gymQuery = (
+  collectionName: string,
+  ...constraints: QueryConstraint[]
+) =>
+  query(
+    collection(db, collectionName),
+    where("gymId", "==", getActiveGymId()),
+    ...constraints
+  );
+
+// Stamp a document with the signed-in gym, overriding any gymId passed in
+export const withGymId = <T extends DocumentData>(data: T) => ({
+  ...data,
+  gymId: getActiveGymId(),
+});
+
+// Strip gymId from update payloads so documents cannot move between gyms
+const withoutGymId = <T extends DocumentData>(data: T) => {
+  const { gymId, ...rest } = data;
+  return rest;
+};
+
+// Read a single gym-owned document, treating other gyms' documents as missing
+export const getGymDoc = async (collectionName: string, id: string) => {
+  const docSnap = await getDoc(doc(db, collectionName, id));
+  if (!docSnap.exists() || docSnap.data().gymId !== getActiveGymId()) {
+    return null;
+  }
+  return { id: docSnap.id, ...docSnap.data() } as DocumentData & { id: string };
+};
+
+// Stamp a member with the keywords `getMembersPage` searches on
+const withSearchKeywords = <T extends DocumentData>(data: T) => ({
+  ...data,
+  searchKeywords: buildSearchKeywords(data.name, data.phone),
+});
+
+const memberStatsRef = () =>
+  doc(db, FIRESTORE_COLLECTIONS.MEMBER_STATS, getActiveGymId());
+
+// Increments for the gym's member counters, or null when nothing changes.
+// Written with `{ merge: true }` alongside the member write itself.
+const toStatsIncrement = (change: MemberStatsChange) =>
+  isMemberStatsChangeEmpty(change)
+    ? null
+    : {
+        gymId: getActiveGymId(),
+        total: increment(change.total),
+        active: increment(change.active),
+        unpaid: increment(change.unpaid),
+        joinedByMonth: Object.fromEntries(
+          Object.entries(change.joinedByMonth).map(([month, count]) => [
+            month,
+            increment(count),
+          ])
+        ),
+      };
+
+const toCountedMember = (data: DocumentData): CountedMember => ({
+  isActive: !!data.isActive,
+  isPaid: !!data.isPaid,
+  joiningDate: data.joiningDate ?? "",
+});
+
+// Add a member, with the payment collected when they joined if there was
+// one; both are written together so a member is never paid without it
+export const addMember = async (
+  memberData: DocumentData,
+  payment?: Omit<NewPayment, "memberId"> | null
+) => {
+  const memberRef = doc(collection(db, FIRESTORE_COLLECTIONS.MEMBERS));
+  const data = withGymId(withSearchKeywords(memberData));
+  const batch = writeBatch(db);
+  batch.set(memberRef, {
+    ...data,
     createdAt: Timestamp.now(),
     updatedAt: Timestamp.now(),
   });
-  return { id: docRef.id, ...memberData };
+  if (payment) {
+    batch.set(doc(collection(db, FIRESTORE_COLLECTIONS.PAYMENTS)), {
+      ...withGymId({ ...payment, memberId: memberRef.id }),
+      paidAt: Timestamp.now(),
+      createdAt: Timestamp.now(),
+    });
+  }
+  const stats = toStatsIncrement(
+    getMemberStatsChange(null, toCountedMember(data))
+  );
+  if (stats) batch.set(memberStatsRef(), stats, { merge: true });
+  await batch.commit();
+  return { id: memberRef.id, ...data };
 };
 
 export const getMembers = async (filters: any = {}) => {
-  const membersRef = collection(db, FIRESTORE_COLLECTIONS.MEMBERS);
-  let q = query(membersRef);
-
-  if (filters.name) {
-    q = query(
-      q,
-      where("name", ">=", filters.name),
-      where("name", "<=", filters.name + "\uf8ff")
-    );
+  let q = gymQuery(FIRESTORE_COLLECTIONS.MEMBERS);
+
+  const keyword = filters.name ? toSearchKeyword(filters.name) : null;
+  if (keyword) {
+    q = query(q, where("searchKeywords", "array-contains", keyword));
   }
   if (filters.status) {
     q = query(q, where("isActive", "==", filters.status === "active"));
@@ -111,36 +294,405 @@ export const getMembers = async (filters: any = {}) => {
   }));
 };
 
+export interface MemberPage {
+  members: Member[];
+  // Cursor for the next page; null when this was the last one
+  lastDoc: QueryDocumentSnapshot | null;
+}
+
+// Members whose term ends between two "yyyy-MM-dd" days, inclusive
+const expiringConstraints = (from: string, to: string) => [
+  where("nextBillDate", ">=", from),
+  where("nextBillDate", "<=", to),
+];
+
+// Filters for the members list. Status filters on the expiry date are
+// ordered by that date, since Firestore orders range queries by their field.
+const memberListConstraints = ({
+  search,
+  filter,
+  expiringDays = DEFAULT_EXPIRING_DAYS,
+}: MemberListQuery): QueryConstraint[] => {
+  const keyword = toSearchKeyword(search);
+  const constraints = keyword
+    ? [where("searchKeywords", "array-contains", keyword)]
+    : [];
+  const today = toDayKey();
+
+  switch (filter) {
+    case "active":
+      return [
+        ...constraints,
+        where("isActive", "==", true),
+        where("nextBillDate", ">=", today),
+        orderBy("nextBillDate", "asc"),
+      ];
+    case "expired":
+      return [
+        ...constraints,
+        where("isActive", "==", true),
+        where("nextBillDate", "<", today),
+        orderBy("nextBillDate", "desc"),
+      ];
+    case "inactive":
+      return [
+        ...constraints,
+        where("isActive", "==", false),
+        orderBy("joiningDate", "desc"),
+      ];
+    case "Not Paid":
+      return [
+        ...constraints,
+        where("isActive", "==", true),
+        where("isPaid", "==", false),
+        orderBy("joiningDate", "desc"),
+      ];
+    case "enrolled":
+      return [
+        ...constraints,
+        where("isActive", "==", true),
+        orderBy("joiningDate", "desc"),
+      ];
+    case "expiring":
+      return [
+        ...constraints,
+        ...expiringConstraints(
+          today,
+          toDayKey(addDays(new Date(), expiringDays))
+        ),
+        orderBy("nextBillDate", "asc"),
+      ];
+    case "joinedThisMonth":
+      return [
+        ...constraints,
+        where("joiningDate", ">=", toDayKey(startOfMonth(new Date()))),
+        orderBy("joiningDate", "desc"),
+      ];
+    default:
+      return [...constraints, orderBy("joiningDate", "desc")];
+  }
+};
+
+const toMember = (docSnap: QueryDocumentSnapshot) =>
+  ({ id: docSnap.id, ...docSnap.data() }) as unknown as Member;
+
+export const getMembersPage = async (
+  listQuery: MemberListQuery,
+  pageSize: number,
+  after: QueryDocumentSnapshot | null = null
+): Promise<MemberPage> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.MEMBERS,
+    ...memberListConstraints(listQuery),
+    ...(after ? [startAfter(after)] : []),
+    limit(pageSize)
+  );
+  const snapshot = await getDocs(q);
+  return {
+    members: snapshot.docs.map(toMember),
+    lastDoc:
+      snapshot.size === pageSize ? snapshot.docs[snapshot.size - 1] : null,
+  };
+};
+
+export const countMembers = async (listQuery: MemberListQuery) => {
+  const snapshot = await getCountFromServer(
+    gymQuery(FIRESTORE_COLLECTIONS.MEMBERS, ...memberListConstraints(listQuery))
+  );
+  return snapshot.data().count;
+};
+
+// Every member matching the list filters, for exports
+export const getAllMembersMatching = async (listQuery: MemberListQuery) => {
+  const snapshot = await getDocs(
+    gymQuery(FIRESTORE_COLLECTIONS.MEMBERS, ...memberListConstraints(listQuery))
+  );
+  return snapshot.docs.map(toMember);
+};
+
+// Members created before the search index existed have no keywords. The
+// gym document records the index version so this runs once per gym.
+export const backfillMemberSearchIndex = async () => {
+  const gymRef = doc(db, FIRESTORE_COLLECTIONS.GYMS, getActiveGymId());
+  const gym = await getDoc(gymRef);
+  if (
+    (gym.data()?.memberSearchIndexVersion ?? 0) >= MEMBER_SEARCH_INDEX_VERSION
+  ) {
+    return 0;
+  }
+
+  const snapshot = await getDocs(gymQuery(FIRESTORE_COLLECTIONS.MEMBERS));
+  await commitInBatches(
+    snapshot.docs.map(
+      (member) => (batch: WriteBatch) =>
+        batch.update(member.ref, {
+          searchKeywords: buildSearchKeywords(
+            member.data().name,
+            member.data().phone
+          ),
+        })
+    )
+  );
+  await updateDoc(gymRef, {
+    memberSearchIndexVersion: MEMBER_SEARCH_INDEX_VERSION,
+  });
+  return snapshot.size;
+};
+
+export interface MemberImportResult {
+  imported: { rowNumber: number; memberId: string; paymentId: string | null }[];
+  // Rows whose batch failed; nothing from that batch was written
+  failed: { rowNumber: number; error: string }[];
+}
+
+// Rows per batch: each row writes a member and possibly a joining payment,
+// which keeps a batch under Firestore's 500-write cap
+const IMPORT_BATCH_ROWS = 200;
+
+export const importMembers = async (
+  rows: {
+    rowNumber: number;
+    member: Omit<InsertMember, "gymId">;
+    payment: Pick<NewPayment, "amount" | "periodStart" | "periodEnd"> | null;
+  }[],
+  collectedBy: { id: string; name: string },
+  onProgress?: (done: number) => void
+): Promise<MemberImportResult> => {
+  const result: MemberImportResult = { imported: [], failed: [] };
+
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_ROWS) {
+    const chunk = rows.slice(i, i + IMPORT_BATCH_ROWS);
+    const batch = writeBatch(db);
+    const written = chunk.map(({ rowNumber, member, payment }) => {
+      const memberRef = doc(collection(db, FIRESTORE_COLLECTIONS.MEMBERS));
+      batch.set(memberRef, {
+        ...withGymId(withSearchKeywords(member)),
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      });
+
+      let paymentRef = null;
+      if (payment) {
+        paymentRef = doc(collection(db, FIRESTORE_COLLECTIONS.PAYMENTS));
+        batch.set(paymentRef, {
+          ...withGymId({
+            ...payment,
+            discount: 0,
+            mode: "cash",
+            memberId: memberRef.id,
+            planId: member.membershipPlanId,
+            collectedBy,
+            note: "Imported payment",
+          }),
+          paidAt: Timestamp.now(),
+          createdAt: Timestamp.now(),
+        });
+      }
+      return {
+        rowNumber,
+        memberId: memberRef.id,
+        paymentId: paymentRef?.id ?? null,
+      };
+    });
+
+    const stats = toStatsIncrement(
+      sumMemberStatsChanges(
+        chunk.map(({ member }) =>
+          getMemberStatsChange(null, toCountedMember(member))
+        )
+      )
+    );
+    if (stats) batch.set(memberStatsRef(), stats, { merge: true });
+
+    try {
+      await batch.commit();
+      result.imported.push(...written);
+    } catch (error) {
+      result.failed.push(
+        ...chunk.map(({ rowNumber }) => ({
+          rowNumber,
+          error: (error as Error).message,
+        }))
+      );
+    }
+    onProgress?.(Math.min(i + IMPORT_BATCH_ROWS, rows.length));
+  }
+  return result;
+};
+
+// Roll back an import by deleting the members and payments it created
+export const undoMemberImport = async (
+  imported: MemberImportResult["imported"]
+) => {
+  await commitInBatches(
+    imported.flatMap(({ memberId, paymentId }) => [
+      (batch: WriteBatch) =>
+        batch.delete(doc(db, FIRESTORE_COLLECTIONS.MEMBERS, memberId)),
+      ...(paymentId
+        ? [
+            (batch: WriteBatch) =>
+              batch.delete(doc(db, FIRESTORE_COLLECTIONS.PAYMENTS, paymentId)),
+          ]
+        : []),
+    ])
+  );
+  await reconcileMemberStats();
+};
+
 export const updateMember = async (
   memberId: string,
   data: Partial<DocumentData>
 ) => {
   const memberRef = doc(db, FIRESTORE_COLLECTIONS.MEMBERS, memberId);
-  await updateDoc(memberRef, {
-    ...data,
-    updatedAt: Timestamp.now(),
+  const changesKeywords = "name" in data || "phone" in data;
+  const changesStats = COUNTED_FIELDS.some((field) => field in data);
+
+  if (!changesKeywords && !changesStats) {
+    await updateDoc(memberRef, {
+      ...withoutGymId(data),
+      updatedAt: Timestamp.now(),
+    });
+    return { id: memberId, ...data };
+  }
+
+  // Keywords and counters depend on the fields this update leaves unchanged,
+  // so read the member in the same transaction
+  await runTransaction(db, async (transaction) => {
+    const current = await transaction.get(memberRef);
+    if (!current.exists()) throw new Error("Member not found");
+    const before = current.data();
+    const after = { ...before, ...withoutGymId(data) };
+
+    transaction.update(memberRef, {
+      ...withoutGymId(data),
+      ...(changesKeywords && {
+        searchKeywords: buildSearchKeywords(after.name, after.phone),
+      }),
+      updatedAt: Timestamp.now(),
+    });
+    const stats = toStatsIncrement(
+      getMemberStatsChange(toCountedMember(before), toCountedMember(after))
+    );
+    if (stats) transaction.set(memberStatsRef(), stats, { merge: true });
   });
   return { id: memberId, ...data };
 };
 
 export const deleteMember = async (memberId: string) => {
   const memberRef = doc(db, FIRESTORE_COLLECTIONS.MEMBERS, memberId);
-  await deleteDoc(memberRef);
+  await runTransaction(db, async (transaction) => {
+    const current = await transaction.get(memberRef);
+    if (!current.exists()) return;
+    transaction.delete(memberRef);
+    const stats = toStatsIncrement(
+      getMemberStatsChange(toCountedMember(current.data()), null)
+    );
+    if (stats) transaction.set(memberStatsRef(), stats, { merge: true });
+  });
   return memberId;
 };
 
+// Stored counters, computed from scratch the first time a gym needs them
+export const getMemberStats = async (): Promise<MemberStats> => {
+  const snapshot = await getDoc(memberStatsRef());
+  if (!snapshot.exists()) {
+    try {
+      return (await reconcileMemberStats()).actual;
+    } catch (error) {
+      // Only staff who edit members may store the counters; others see a
+      // fresh count until someone who can opens the dashboard
+      if ((error as { code?: string }).code !== "permission-denied") {
+        throw error;
+      }
+      return countMemberStats();
+    }
+  }
+  return {
+    total: snapshot.data().total ?? 0,
+    active: snapshot.data().active ?? 0,
+    unpaid: snapshot.data().unpaid ?? 0,
+    joinedByMonth: snapshot.data().joinedByMonth ?? {},
+    reconciledAt: snapshot.data().reconciledAt?.toDate(),
+  };
+};
+
+const countMemberStats = async () => {
+  const snapshot = await getDocs(gymQuery(FIRESTORE_COLLECTIONS.MEMBERS));
+  return computeMemberStats(
+    snapshot.docs.map((member) => toCountedMember(member.data()))
+  );
+};
+
+// Recount every member and overwrite the stored counters. Returns the stored
+// values alongside the fresh count so drift can be reported.
+export const reconcileMemberStats = async () => {
+  const [stored, actual] = await Promise.all([
+    getDoc(memberStatsRef()),
+    countMemberStats(),
+  ]);
+  await setDoc(memberStatsRef(), {
+    ...actual,
+    gymId: getActiveGymId(),
+    reconciledAt: Timestamp.now(),
+  });
+  return {
+    stored: stored.exists() ? (stored.data() as MemberStatsChange) : null,
+    actual: { ...actual, reconciledAt: new Date() } as MemberStats,
+  };
+};
+
+export const getExpiringMembers = async (from: string, to: string) => {
+  const snapshot = await getDocs(
+    gymQuery(
+      FIRESTORE_COLLECTIONS.MEMBERS,
+      ...expiringConstraints(from, to),
+      orderBy("nextBillDate", "asc")
+    )
+  );
+  return snapshot.docs.map(toMember);
+};
+
+export const countExpiringMembers = async (from: string, to: string) => {
+  const snapshot = await getCountFromServer(
+    gymQuery(FIRESTORE_COLLECTIONS.MEMBERS, ...expiringConstraints(from, to))
+  );
+  return snapshot.data().count;
+};
+
+// Joining dates of members who joined between two "yyyy-MM-dd" days
+export const getJoiningDatesInRange = async (from: string, to: string) => {
+  const snapshot = await getDocs(
+    gymQuery(
+      FIRESTORE_COLLECTIONS.MEMBERS,
+      where("joiningDate", ">=", from),
+      where("joiningDate", "<=", to)
+    )
+  );
+  return snapshot.docs.map((member) => member.data().joiningDate as string);
+};
+
+export const countExpiredMembers = async (today: string) => {
+  const snapshot = await getCountFromServer(
+    gymQuery(
+      FIRESTORE_COLLECTIONS.MEMBERS,
+      where("isActive", "==", true),
+      where("nextBillDate", "<", today)
+    )
+  );
+  return snapshot.data().count;
+};
+
 export const addMembershipPlan = async (data: Omit<MembershipPlan, "id">) => {
   const plansRef = collection(db, FIRESTORE_COLLECTIONS.MEMBERSHIP_PLANS);
   const docRef = await addDoc(plansRef, {
-    ...data,
+    ...withGymId(data),
     createdAt: new Date(),
   });
   return docRef.id;
 };
 
 export const getMembershipPlans = async () => {
-  const plansRef = collection(db, FIRESTORE_COLLECTIONS.MEMBERSHIP_PLANS);
-  const q = query(plansRef);
+  const q = gymQuery(FIRESTORE_COLLECTIONS.MEMBERSHIP_PLANS);
   const snapshot = await getDocs(q);
 
   return snapshot.docs.map((doc) => ({
@@ -155,7 +707,7 @@ export const updateMembershipPlan = async (
 ) => {
   const planRef = doc(db, FIRESTORE_COLLECTIONS.MEMBERSHIP_PLANS, id);
   await updateDoc(planRef, {
-    ...data,
+    ...withoutGymId(data),
     updatedAt: new Date(),
   });
 };
@@ -194,32 +746,1086 @@ export const updateGym = async (gymId: string, data: Partial<DocumentData>) => {
   return { id: gymId, ...data };
 };
 
-export const addPayment = async (paymentData: DocumentData) => {
-  const paymentsRef = collection(db, FIRESTORE_COLLECTIONS.PAYMENTS);
-  const docRef = await addDoc(paymentsRef, {
-    ...paymentData,
+// Key that signs member ID card QR codes. The owner's first card generates
+// it; staff devices only read it to verify scans.
+export const getMemberCardKey = async (): Promise<string> => {
+  const gymRef = doc(db, FIRESTORE_COLLECTIONS.GYMS, getActiveGymId());
+  const gymSnap = await getDoc(gymRef);
+  const existingKey = gymSnap.exists() ? gymSnap.data().memberCardKey : null;
+  if (existingKey) return existingKey;
+
+  const memberCardKey = generateMemberCardKey();
+  await setDoc(
+    gymRef,
+    { memberCardKey, updatedAt: Timestamp.now() },
+    { merge: true }
+  );
+  return memberCardKey;
+};
+
+// Messaging settings live in their own document, keyed by gym, so the gateway
+// API key is not exposed wherever the gym document is read
+export const getMessagingSettings =
+  async (): Promise<WhatsAppGatewaySettings | null> => {
+    const settingsSnap = await getDoc(
+      doc(db, FIRESTORE_COLLECTIONS.MESSAGING_SETTINGS, getActiveGymId())
+    );
+    if (!settingsSnap.exists()) return null;
+    const { baseUrl, apiKey } = settingsSnap.data();
+    return { baseUrl, apiKey };
+  };
+
+export const saveMessagingSettings = async (
+  settings: WhatsAppGatewaySettings
+) => {
+  const gymId = getActiveGymId();
+  await setDoc(doc(db, FIRESTORE_COLLECTIONS.MESSAGING_SETTINGS, gymId), {
+    ...settings,
+    gymId,
+    updatedAt: Timestamp.now(),
+  });
+  return settings;
+};
+
+const toMessage = (doc: DocumentData) =>
+  ({
+    id: doc.id,
+    ...doc.data(),
+    nextAttemptAt: doc.data().nextAttemptAt?.toDate() ?? null,
+    createdAt: doc.data().createdAt?.toDate(),
+    sentAt: doc.data().sentAt?.toDate() ?? null,
+  }) as Message;
+
+export const enqueueMessage = async (messageData: NewMessage) => {
+  const messagesRef = collection(db, FIRESTORE_COLLECTIONS.MESSAGES);
+  const data = withGymId({
+    ...messageData,
+    status: "queued",
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: Timestamp.now(),
+    sentAt: null,
+  });
+  const docRef = await addDoc(messagesRef, {
+    ...data,
     createdAt: Timestamp.now(),
   });
-  return { id: docRef.id, ...paymentData };
+  return docRef.id;
 };
 
-export const getPayments = async (memberId: string) => {
-  const paymentsRef = collection(db, FIRESTORE_COLLECTIONS.PAYMENTS);
-  const q = query(paymentsRef, where("memberId", "==", memberId));
+export const getMessages = async (maxMessages = 500): Promise<Message[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.MESSAGES,
+    orderBy("createdAt", "desc"),
+    limit(maxMessages)
+  );
   const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(toMessage);
+};
+
+// Messages of one type created since a date, e.g. to avoid re-sending
+export const getRecentMessages = async (
+  type: MessageType,
+  since: Date
+): Promise<Message[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.MESSAGES,
+    where("type", "==", type),
+    where("createdAt", ">=", Timestamp.fromDate(since))
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(toMessage);
+};
+
+export const getDueMessages = async (): Promise<Message[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.MESSAGES,
+    where("status", "==", "queued"),
+    where("nextAttemptAt", "<=", Timestamp.now())
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(toMessage);
+};
+
+// Take a due message for sending by pushing its next attempt past the lease.
+// Returns false if another runner got there first.
+export const claimMessage = async (messageId: string) => {
+  const messageRef = doc(db, FIRESTORE_COLLECTIONS.MESSAGES, messageId);
+  return runTransaction(db, async (transaction) => {
+    const messageSnap = await transaction.get(messageRef);
+    const data = messageSnap.data();
+    if (
+      !data ||
+      data.status !== "queued" ||
+      data.nextAttemptAt.toMillis() > Date.now()
+    ) {
+      return false;
+    }
+    transaction.update(messageRef, {
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + SEND_LEASE_MS),
+    });
+    return true;
+  });
+};
+
+export const markMessageSent = async (messageId: string, attempts: number) => {
+  await updateDoc(doc(db, FIRESTORE_COLLECTIONS.MESSAGES, messageId), {
+    status: "sent",
+    attempts,
+    lastError: null,
+    nextAttemptAt: null,
+    sentAt: Timestamp.now(),
+  });
+};
+
+// Requeue with backoff, or give up once the attempts run out
+export const markMessageFailed = async (
+  messageId: string,
+  attempts: number,
+  error: string
+) => {
+  const willRetry = attempts < MAX_ATTEMPTS;
+  await updateDoc(doc(db, FIRESTORE_COLLECTIONS.MESSAGES, messageId), {
+    status: willRetry ? "queued" : "failed",
+    attempts,
+    lastError: error,
+    nextAttemptAt: willRetry
+      ? Timestamp.fromMillis(Date.now() + getRetryDelay(attempts))
+      : null,
+  });
+};
+
+export const resendMessage = async (messageId: string) => {
+  await updateDoc(doc(db, FIRESTORE_COLLECTIONS.MESSAGES, messageId), {
+    status: "queued",
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: Timestamp.now(),
+    sentAt: null,
+  });
+};
+
+// Template bodies by type; types the gym has not customised use the default
+export const getMessageTemplates = async (): Promise<
+  Record<MessageType, string>
+> => {
+  const q = gymQuery(FIRESTORE_COLLECTIONS.MESSAGE_TEMPLATES);
+  const querySnapshot = await getDocs(q);
+  const saved = new Map(
+    querySnapshot.docs.map((doc) => [doc.data().type, doc.data().body])
+  );
+  return Object.fromEntries(
+    TEMPLATE_TYPES.map((type) => [
+      type,
+      saved.get(type) ?? TEMPLATES[type].defaultBody,
+    ])
+  ) as Record<MessageType, string>;
+};
+
+// One document per gym and template type
+export const saveMessageTemplate = async (type: MessageType, body: string) => {
+  const gymId = getActiveGymId();
+  await setDoc(
+    doc(db, FIRESTORE_COLLECTIONS.MESSAGE_TEMPLATES, `${gymId}_${type}`),
+    { gymId, type, body, updatedAt: Timestamp.now() }
+  );
+};
+
+export const getReminderRules = async (): Promise<ReminderRule[]> => {
+  const settingsSnap = await getDoc(
+    doc(db, FIRESTORE_COLLECTIONS.REMINDER_SETTINGS, getActiveGymId())
+  );
+  return settingsSnap.exists()
+    ? settingsSnap.data().rules
+    : DEFAULT_REMINDER_RULES;
+};
+
+export const saveReminderRules = async (rules: ReminderRule[]) => {
+  const gymId = getActiveGymId();
+  await setDoc(doc(db, FIRESTORE_COLLECTIONS.REMINDER_SETTINGS, gymId), {
+    gymId,
+    rules,
+    updatedAt: Timestamp.now(),
+  });
+  return rules;
+};
+
+const reminderLogRef = ({ member, rule }: DueReminder) =>
+  doc(
+    db,
+    FIRESTORE_COLLECTIONS.REMINDER_LOG,
+    getReminderKey(
+      getActiveGymId(),
+      String(member.id),
+      rule.offsetDays,
+      member.nextBillDate
+    )
+  );
+
+// Queue a reminder unless it was already sent for this rule and billing
+// period. The log entry and the message are written together, so two
+// browsers running the job at once cannot both queue it.
+export const enqueueReminder = async (reminder: DueReminder, body: string) => {
+  const logRef = reminderLogRef(reminder);
+  const messageRef = doc(collection(db, FIRESTORE_COLLECTIONS.MESSAGES));
+  const { member, rule } = reminder;
+
+  return runTransaction(db, async (transaction) => {
+    if ((await transaction.get(logRef)).exists()) return false;
+
+    transaction.set(logRef, {
+      gymId: getActiveGymId(),
+      memberId: String(member.id),
+      offsetDays: rule.offsetDays,
+      nextBillDate: member.nextBillDate,
+      messageId: messageRef.id,
+      createdAt: Timestamp.now(),
+    });
+    transaction.set(messageRef, {
+      ...withGymId({
+        memberId: String(member.id),
+        memberName: member.name,
+        phone: member.phone,
+        type: rule.type,
+        body,
+      }),
+      status: "queued",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: Timestamp.now(),
+      sentAt: null,
+      createdAt: Timestamp.now(),
+    });
+    return true;
+  });
+};
+
+export const isReminderSent = async (reminder: DueReminder) =>
+  (await getDoc(reminderLogRef(reminder))).exists();
+
+export const getBirthdaySettings = async (): Promise<BirthdaySettings> => {
+  const settingsSnap = await getDoc(
+    doc(db, FIRESTORE_COLLECTIONS.BIRTHDAY_SETTINGS, getActiveGymId())
+  );
+  return { ...DEFAULT_BIRTHDAY_SETTINGS, ...settingsSnap.data() };
+};
+
+export const saveBirthdaySettings = async (settings: BirthdaySettings) => {
+  const gymId = getActiveGymId();
+  await setDoc(doc(db, FIRESTORE_COLLECTIONS.BIRTHDAY_SETTINGS, gymId), {
+    ...settings,
+    gymId,
+    updatedAt: Timestamp.now(),
+  });
+  return settings;
+};
+
+export const getDashboardSettings = async (): Promise<DashboardSettings> => {
+  const settingsSnap = await getDoc(
+    doc(db, FIRESTORE_COLLECTIONS.DASHBOARD_SETTINGS, getActiveGymId())
+  );
+  return normalizeDashboardSettings(settingsSnap.data());
+};
+
+export const saveDashboardSettings = async (settings: DashboardSettings) => {
+  const gymId = getActiveGymId();
+  await setDoc(doc(db, FIRESTORE_COLLECTIONS.DASHBOARD_SETTINGS, gymId), {
+    ...settings,
+    gymId,
+    updatedAt: Timestamp.now(),
+  });
+  return settings;
+};
+
+// Greet a member and/or issue their coupon once per birthday. Returns false
+// if that birthday was already handled.
+export const recordBirthday = async (
+  member: { id: string; name: string; phone: string },
+  year: number,
+  { body, coupon }: { body: string | null; coupon: NewCoupon | null }
+) => {
+  const gymId = getActiveGymId();
+  const logRef = doc(
+    db,
+    FIRESTORE_COLLECTIONS.BIRTHDAY_LOG,
+    `${gymId}_${member.id}_${year}`
+  );
+
+  return runTransaction(db, async (transaction) => {
+    if ((await transaction.get(logRef)).exists()) return false;
+
+    const couponRef = coupon
+      ? doc(collection(db, FIRESTORE_COLLECTIONS.COUPONS))
+      : null;
+    const messageRef = body
+      ? doc(collection(db, FIRESTORE_COLLECTIONS.MESSAGES))
+      : null;
+
+    transaction.set(logRef, {
+      gymId,
+      memberId: member.id,
+      year,
+      messageId: messageRef?.id ?? null,
+      couponId: couponRef?.id ?? null,
+      createdAt: Timestamp.now(),
+    });
+    if (couponRef && coupon) {
+      transaction.set(couponRef, {
+        ...withGymId(coupon),
+        redeemedAt: null,
+        renewalId: null,
+        createdAt: Timestamp.now(),
+      });
+    }
+    if (messageRef && body) {
+      transaction.set(messageRef, {
+        ...withGymId({
+          memberId: member.id,
+          memberName: member.name,
+          phone: member.phone,
+          type: "birthday",
+          body,
+        }),
+        status: "queued",
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: Timestamp.now(),
+        sentAt: null,
+        createdAt: Timestamp.now(),
+      });
+    }
+    return true;
+  });
+};
+
+// The member's best unused, unexpired coupon
+export const getActiveCoupon = async (
+  memberId: string
+): Promise<Coupon | null> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.COUPONS,
+    where("memberId", "==", memberId),
+    where("redeemedAt", "==", null)
+  );
+  const querySnapshot = await getDocs(q);
+  const coupons = querySnapshot.docs
+    .map(
+      (doc) =>
+        ({
+          id: doc.id,
+          ...doc.data(),
+          redeemedAt: null,
+          createdAt: doc.data().createdAt?.toDate(),
+        }) as Coupon
+    )
+    .filter((coupon) => isCouponUsable(coupon))
+    .sort((a, b) => b.discount - a.discount);
+  return coupons[0] ?? null;
+};
+
+export const getFestivals = async (): Promise<FestivalEvent[]> => {
+  const querySnapshot = await getDocs(
+    gymQuery(FIRESTORE_COLLECTIONS.FESTIVALS)
+  );
   return querySnapshot.docs.map((doc) => ({
     id: doc.id,
-    ...doc.data(),
+    date: doc.data().date.toDate(),
+    title: doc.data().title,
+    message: doc.data().message,
+    recurrence: doc.data().recurrence ?? "none",
+    createdAt: doc.data().createdAt.toDate(),
   }));
 };
 
+const toFestivalData = (festival: NewFestival) => ({
+  ...withGymId(festival),
+  date: Timestamp.fromDate(festival.date),
+  createdAt: Timestamp.now(),
+});
+
+export const addFestival = async (festival: NewFestival) => {
+  const docRef = await addDoc(
+    collection(db, FIRESTORE_COLLECTIONS.FESTIVALS),
+    toFestivalData(festival)
+  );
+  return docRef.id;
+};
+
+// Used by the holiday calendar import
+export const addFestivals = async (festivals: NewFestival[]) => {
+  await commitInBatches(
+    festivals.map(
+      (festival) => (batch: WriteBatch) =>
+        batch.set(
+          doc(collection(db, FIRESTORE_COLLECTIONS.FESTIVALS)),
+          toFestivalData(festival)
+        )
+    )
+  );
+};
+
+export const updateFestival = async (
+  festivalId: string,
+  data: Partial<Omit<NewFestival, "date">>
+) => {
+  await updateDoc(doc(db, FIRESTORE_COLLECTIONS.FESTIVALS, festivalId), {
+    ...withoutGymId(data),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+export const deleteFestival = async (festivalId: string) => {
+  await cancelFestivalCampaigns(festivalId);
+  await deleteDoc(doc(db, FIRESTORE_COLLECTIONS.FESTIVALS, festivalId));
+};
+
+const toCampaign = (doc: DocumentData) =>
+  ({
+    id: doc.id,
+    ...doc.data(),
+    sendAt: doc.data().sendAt?.toDate(),
+    createdAt: doc.data().createdAt?.toDate(),
+  }) as Campaign;
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 500;
+
+const commitInBatches = async (writes: ((batch: WriteBatch) => void)[]) => {
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+};
+
+// Create a campaign with one queued message per recipient, due at `sendAt`
+export const createCampaign = async (
+  campaignData: NewCampaign,
+  recipients: Omit<NewMessage, "type" | "campaignId">[]
+) => {
+  const campaignRef = doc(collection(db, FIRESTORE_COLLECTIONS.CAMPAIGNS));
+  const sendAt = Timestamp.fromDate(campaignData.sendAt);
+
+  await setDoc(campaignRef, {
+    ...withGymId(campaignData),
+    sendAt,
+    status: "scheduled",
+    recipientCount: recipients.length,
+    createdAt: Timestamp.now(),
+  });
+
+  // Recipients are queued a batch at a time. If one batch fails, the ones
+  // already queued are cancelled and the campaign is marked failed, so a
+  // broadcast never goes out to only part of its audience.
+  let queuedCount = 0;
+  try {
+    for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+      const chunk = recipients.slice(i, i + BATCH_SIZE);
+      const batch = writeBatch(db);
+      chunk.forEach((recipient) =>
+        batch.set(doc(collection(db, FIRESTORE_COLLECTIONS.MESSAGES)), {
+          ...withGymId({ ...recipient, type: "festival" }),
+          campaignId: campaignRef.id,
+          status: "queued",
+          attempts: 0,
+          lastError: null,
+          nextAttemptAt: sendAt,
+          sentAt: null,
+          createdAt: Timestamp.now(),
+        })
+      );
+      await batch.commit();
+      queuedCount += chunk.length;
+    }
+  } catch (error) {
+    console.error("Error queueing campaign messages:", error);
+    await failCampaign(campaignRef.id, queuedCount).catch((failError) =>
+      console.error("Error marking campaign failed:", failError)
+    );
+    throw new Error(
+      `Only ${queuedCount} of ${recipients.length} messages could be queued, so the campaign was stopped`
+    );
+  }
+  return campaignRef.id;
+};
+
+const failCampaign = async (campaignId: string, queuedCount: number) => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.MESSAGES,
+    where("campaignId", "==", campaignId),
+    where("status", "==", "queued")
+  );
+  const querySnapshot = await getDocs(q);
+  await commitInBatches([
+    ...querySnapshot.docs.map(
+      (messageDoc) => (batch: WriteBatch) =>
+        batch.update(messageDoc.ref, {
+          status: "cancelled",
+          nextAttemptAt: null,
+        })
+    ),
+    // The campaign is marked last, once nothing of it is left to send
+    (batch) =>
+      batch.update(doc(db, FIRESTORE_COLLECTIONS.CAMPAIGNS, campaignId), {
+        status: "failed",
+        queuedCount,
+        updatedAt: Timestamp.now(),
+      }),
+  ]);
+};
+
+export const getCampaigns = async (festivalId: string): Promise<Campaign[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.CAMPAIGNS,
+    where("festivalId", "==", festivalId)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(toCampaign)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+export const getCampaignMessages = async (
+  campaignId: string
+): Promise<Message[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.MESSAGES,
+    where("campaignId", "==", campaignId)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(toMessage);
+};
+
+// Pausing holds back the campaign's undelivered messages, resuming queues
+// them again and cancelling drops them. Messages already sent are untouched.
+export const setCampaignStatus = async (
+  campaign: Campaign,
+  status: CampaignStatus
+) => {
+  const heldStatuses: MessageStatus[] =
+    status === "scheduled"
+      ? ["paused"]
+      : status === "paused"
+        ? ["queued"]
+        : ["queued", "paused"];
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.MESSAGES,
+    where("campaignId", "==", campaign.id),
+    where("status", "in", heldStatuses)
+  );
+  const querySnapshot = await getDocs(q);
+  const nextAttemptAt =
+    status === "scheduled"
+      ? Timestamp.fromMillis(Math.max(Date.now(), campaign.sendAt.getTime()))
+      : null;
+
+  await commitInBatches([
+    (batch) =>
+      batch.update(doc(db, FIRESTORE_COLLECTIONS.CAMPAIGNS, campaign.id), {
+        status,
+        updatedAt: Timestamp.now(),
+      }),
+    ...querySnapshot.docs.map(
+      (messageDoc) => (batch: WriteBatch) =>
+        batch.update(messageDoc.ref, {
+          status: status === "scheduled" ? "queued" : status,
+          nextAttemptAt,
+        })
+    ),
+  ]);
+};
+
+// Stop every campaign of a festival that is being deleted
+export const cancelFestivalCampaigns = async (festivalId: string) => {
+  const campaigns = await getCampaigns(festivalId);
+  for (const campaign of campaigns) {
+    if (campaign.status !== "cancelled") {
+      await setCampaignStatus(campaign, "cancelled");
+    }
+  }
+};
+
+// Load the signed-in account's profile from `users/{uid}`. Gym owners who
+// registered before profiles existed only have `gyms/{uid}`, so they fall back
+// to an admin profile for that gym.
+export const getUserProfile = async (uid: string): Promise<User | null> => {
+  const profileSnap = await getDoc(doc(db, FIRESTORE_COLLECTIONS.USERS, uid));
+  const profile = profileSnap.exists() ? profileSnap.data() : null;
+  const gymId: string = profile?.gymId || uid;
+  const gym = (await getGym(gymId)) as DocumentData | null;
+
+  if (!profile && !gym) return null;
+
+  return {
+    id: uid,
+    email: profile?.email ?? gym?.email ?? "",
+    username: profile?.username ?? gym?.username ?? profile?.email ?? "",
+    gymName: gym?.gymName ?? null,
+    photo: profile?.photo ?? gym?.photo ?? null,
+    role: profile?.role ?? "admin",
+    trainerId: profile?.trainerId,
+    gymId,
+    createdAt: (profile?.createdAt ?? gym?.createdAt)?.toDate?.() ?? new Date(),
+  };
+};
+
+export const addPayment = async (paymentData: NewPayment) => {
+  const paymentsRef = collection(db, FIRESTORE_COLLECTIONS.PAYMENTS);
+  const data = withGymId(paymentData);
+  const docRef = await addDoc(paymentsRef, {
+    ...data,
+    paidAt: Timestamp.now(),
+    createdAt: Timestamp.now(),
+  });
+  return { id: docRef.id, ...data, paidAt: new Date() } as Payment;
+};
+
+export const getPayments = async (memberId: string): Promise<Payment[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.PAYMENTS,
+    where("memberId", "==", memberId)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(
+      (doc) =>
+        ({
+          id: doc.id,
+          ...doc.data(),
+          paidAt: doc.data().paidAt?.toDate() ?? doc.data().createdAt?.toDate(),
+        }) as Payment
+    )
+    .sort((a, b) => b.paidAt.getTime() - a.paidAt.getTime());
+};
+
+// Every payment collected in the gym between two dates, oldest first
+export const getPaymentsInRange = async (
+  startDate: Date,
+  endDate: Date
+): Promise<Payment[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.PAYMENTS,
+    where("paidAt", ">=", Timestamp.fromDate(startDate)),
+    where("paidAt", "<=", Timestamp.fromDate(endDate)),
+    orderBy("paidAt", "asc")
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(
+    (doc) =>
+      ({
+        id: doc.id,
+        ...doc.data(),
+        paidAt: doc.data().paidAt.toDate(),
+      }) as Payment
+  );
+};
+
+// Recompute a member's isPaid flag from the payment ledger. The flag is kept
+// on the member document so lists and dashboard counts can filter on it.
+export const syncMemberPaymentStatus = async (memberId: string) => {
+  const member = await getGymDoc(FIRESTORE_COLLECTIONS.MEMBERS, memberId);
+  if (!member) return null;
+
+  const plan = member.membershipPlanId
+    ? await getGymDoc(
+        FIRESTORE_COLLECTIONS.MEMBERSHIP_PLANS,
+        member.membershipPlanId
+      )
+    : null;
+  const payments = await getPayments(memberId);
+  const balance = getMemberBalance(
+    { nextBillDate: member.nextBillDate },
+    plan && { price: plan.price, durationMonths: plan.durationMonths },
+    payments
+  );
+  const isPaid = balance.outstanding <= 0;
+
+  if (member.isPaid !== isPaid) {
+    await updateMember(memberId, { isPaid });
+  }
+  return balance;
+};
+
+// Renew a member onto a plan: extend their term, record the payment for it
+// and keep a renewal entry, all in one transaction so a failed write leaves
+// the member untouched and the counters follow the member as it is now
+export const renewMember = async ({
+  member,
+  plan,
+  payment,
+  renewedBy,
+  couponId,
+}: {
+  member: { id: string };
+  plan: Pick<MembershipPlan, "id" | "name" | "durationMonths" | "price">;
+  payment: Pick<NewPayment, "amount" | "discount" | "mode" | "note">;
+  renewedBy: { id: string; name: string };
+  // A coupon applied to this renewal's discount
+  couponId?: string;
+}) => {
+  const gymId = getActiveGymId();
+  const memberRef = doc(db, FIRESTORE_COLLECTIONS.MEMBERS, member.id);
+  const paymentRef = doc(collection(db, FIRESTORE_COLLECTIONS.PAYMENTS));
+  const renewalRef = doc(collection(db, FIRESTORE_COLLECTIONS.RENEWALS));
+
+  // The new term follows on from the bill date as stored now, not as the
+  // caller last saw it, so two renewals in a row buy two terms
+  return runTransaction(db, async (transaction) => {
+    const current = await transaction.get(memberRef);
+    if (!current.exists()) throw new Error("Member not found");
+
+    // A coupon can only be redeemed once, so check it has not been used by
+    // another renewal since the dialog loaded it
+    const couponRef = couponId
+      ? doc(db, FIRESTORE_COLLECTIONS.COUPONS, couponId)
+      : null;
+    if (couponRef) {
+      const coupon = await transaction.get(couponRef);
+      if (
+        !coupon.exists() ||
+        coupon.data().memberId !== member.id ||
+        !isCouponUsable({ id: coupon.id, ...coupon.data() } as Coupon)
+      ) {
+        throw new Error("This coupon has already been used or has expired");
+      }
+    }
+
+    const previousNextBillDate: string = current.data().nextBillDate;
+    const period = getRenewalPeriod(previousNextBillDate, plan.durationMonths);
+    const balance = getMemberBalance({ nextBillDate: period.periodEnd }, plan, [
+      { ...payment, periodEnd: period.periodEnd },
+    ]);
+    const isPaid = balance.outstanding <= 0;
+
+    transaction.set(paymentRef, {
+      ...payment,
+      ...period,
+      gymId,
+      memberId: member.id,
+      planId: plan.id,
+      collectedBy: renewedBy,
+      paidAt: Timestamp.now(),
+      createdAt: Timestamp.now(),
+    });
+    transaction.set(renewalRef, {
+      ...period,
+      gymId,
+      memberId: member.id,
+      planId: plan.id,
+      planName: plan.name,
+      previousNextBillDate,
+      paymentId: paymentRef.id,
+      renewedBy,
+      renewedAt: Timestamp.now(),
+    });
+    transaction.update(memberRef, {
+      membershipPlanId: plan.id,
+      nextBillDate: period.periodEnd,
+      isActive: true,
+      isPaid,
+      updatedAt: Timestamp.now(),
+    });
+    const stats = toStatsIncrement(
+      getMemberStatsChange(
+        toCountedMember(current.data()),
+        toCountedMember({ ...current.data(), isActive: true, isPaid })
+      )
+    );
+    if (stats) transaction.set(memberStatsRef(), stats, { merge: true });
+    if (couponRef) {
+      transaction.update(couponRef, {
+        redeemedAt: Timestamp.now(),
+        renewalId: renewalRef.id,
+      });
+    }
+
+    return { id: renewalRef.id, ...period, balance };
+  });
+};
+
+export const getRenewals = async (memberId: string): Promise<Renewal[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.RENEWALS,
+    where("memberId", "==", memberId)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(
+      (doc) =>
+        ({
+          id: doc.id,
+          ...doc.data(),
+          renewedAt: doc.data().renewedAt?.toDate(),
+        }) as Renewal
+    )
+    .sort((a, b) => b.renewedAt.getTime() - a.renewedAt.getTime());
+};
+
+// Every renewal in the gym between two dates
+export const getRenewalsInRange = async (
+  startDate: Date,
+  endDate: Date
+): Promise<Renewal[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.RENEWALS,
+    where("renewedAt", ">=", Timestamp.fromDate(startDate)),
+    where("renewedAt", "<=", Timestamp.fromDate(endDate))
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(
+    (doc) =>
+      ({
+        id: doc.id,
+        ...doc.data(),
+        renewedAt: doc.data().renewedAt.toDate(),
+      }) as Renewal
+  );
+};
+
+export const getFreezes = async (memberId: string): Promise<Freeze[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.FREEZES,
+    where("memberId", "==", memberId)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(
+      (doc) =>
+        ({
+          id: doc.id,
+          ...doc.data(),
+          frozenAt: doc.data().frozenAt?.toDate(),
+        }) as Freeze
+    )
+    .sort((a, b) => b.startDate.localeCompare(a.startDate));
+};
+
+// Every freeze in the gym starting on or after a day
+export const getFreezesSince = async (since: string): Promise<Freeze[]> => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.FREEZES,
+    where("startDate", ">=", since)
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(
+    (doc) =>
+      ({
+        id: doc.id,
+        ...doc.data(),
+        frozenAt: doc.data().frozenAt?.toDate(),
+      }) as Freeze
+  );
+};
+
+// Freeze days the member has used since their current term started
+export const getMemberFreezeDaysUsed = async (member: {
+  id: string;
+  joiningDate: string;
+}) => {
+  const [freezes, renewals] = await Promise.all([
+    getFreezes(member.id),
+    getRenewals(member.id),
+  ]);
+  return getFreezeDaysUsed(freezes, getTermStart(member.joiningDate, renewals));
+};
+
+// Move the dates of a member's payments and renewals from `from` on by
+// `days`, in the same transaction that moves their bill date
+const shiftMemberTerms = async (
+  transaction: Transaction,
+  memberId: string,
+  from: string,
+  days: number
+) => {
+  const [payments, renewals] = await Promise.all([
+    getPayments(memberId),
+    getRenewals(memberId),
+  ]);
+  payments.forEach((payment) => {
+    const changes = shiftTermDates(
+      { periodStart: payment.periodStart, periodEnd: payment.periodEnd },
+      from,
+      days
+    );
+    if (Object.keys(changes).length > 0) {
+      transaction.update(
+        doc(db, FIRESTORE_COLLECTIONS.PAYMENTS, payment.id),
+        changes
+      );
+    }
+  });
+  renewals.forEach((renewal) => {
+    const changes = shiftTermDates(renewal, from, days);
+    if (Object.keys(changes).length > 0) {
+      transaction.update(
+        doc(db, FIRESTORE_COLLECTIONS.RENEWALS, renewal.id),
+        changes
+      );
+    }
+  });
+};
+
+// Pause a membership: the member's term, and the payments and renewals for
+// it, are pushed back by the frozen days so no paid days are lost, and
+// check-in is blocked while the freeze lasts. The member is read in the
+// transaction first, so a renewal or another freeze committed meanwhile
+// makes it retry with fresh freezes, payments and renewals.
+export const freezeMember = async ({
+  memberId,
+  startDate,
+  endDate,
+  reason,
+  frozenBy,
+}: {
+  memberId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  frozenBy: { id: string; name: string };
+}) => {
+  const memberRef = doc(db, FIRESTORE_COLLECTIONS.MEMBERS, memberId);
+  const freezeRef = doc(collection(db, FIRESTORE_COLLECTIONS.FREEZES));
+
+  return runTransaction(db, async (transaction) => {
+    const current = await transaction.get(memberRef);
+    if (!current.exists()) throw new Error("Member not found");
+    const member = current.data();
+
+    const plan = member.membershipPlanId
+      ? await getGymDoc(
+          FIRESTORE_COLLECTIONS.MEMBERSHIP_PLANS,
+          member.membershipPlanId
+        )
+      : null;
+    const daysUsed = await getMemberFreezeDaysUsed({
+      id: memberId,
+      joiningDate: member.joiningDate,
+    });
+    const error = getFreezeError({
+      startDate,
+      endDate,
+      member: {
+        nextBillDate: member.nextBillDate,
+        frozenFrom: member.frozenFrom,
+        frozenUntil: member.frozenUntil,
+      },
+      maxFreezeDays: plan?.maxFreezeDays,
+      daysUsed,
+    });
+    if (error) throw new Error(error);
+
+    const days = getFreezeDays(startDate, endDate);
+    const nextBillDate = shiftDay(member.nextBillDate, days);
+
+    await shiftMemberTerms(transaction, memberId, startDate, days);
+    transaction.set(freezeRef, {
+      gymId: getActiveGymId(),
+      memberId,
+      startDate,
+      endDate,
+      days,
+      reason,
+      previousNextBillDate: member.nextBillDate,
+      frozenBy,
+      frozenAt: Timestamp.now(),
+    });
+    transaction.update(memberRef, {
+      frozenFrom: startDate,
+      frozenUntil: endDate,
+      nextBillDate,
+      updatedAt: Timestamp.now(),
+    });
+
+    return { id: freezeRef.id, days, nextBillDate };
+  });
+};
+
+// End a member's freeze today, or cancel it if it has not started, handing
+// back the days they did not use
+export const endMemberFreeze = async (memberId: string) => {
+  const memberRef = doc(db, FIRESTORE_COLLECTIONS.MEMBERS, memberId);
+  const today = toDayKey();
+
+  return runTransaction(db, async (transaction) => {
+    const current = await transaction.get(memberRef);
+    const member = current.data();
+    if (
+      !member?.frozenFrom ||
+      !member.frozenUntil ||
+      member.frozenUntil < today
+    ) {
+      throw new Error("Member has no freeze to end");
+    }
+
+    const q = gymQuery(
+      FIRESTORE_COLLECTIONS.FREEZES,
+      where("memberId", "==", memberId),
+      where("startDate", "==", member.frozenFrom)
+    );
+    const freezeDoc = (await getDocs(q)).docs.find(
+      (doc) => !doc.data().endedOn
+    );
+
+    const endDate = member.frozenFrom < today ? shiftDay(today, -1) : null;
+    const returnsOn = endDate ? today : member.frozenFrom;
+    const unusedDays = getFreezeDays(returnsOn, member.frozenUntil);
+    const nextBillDate = shiftDay(member.nextBillDate, -unusedDays);
+
+    await shiftMemberTerms(transaction, memberId, returnsOn, -unusedDays);
+    if (freezeDoc) {
+      transaction.update(freezeDoc.ref, {
+        endDate: endDate ?? member.frozenFrom,
+        days: freezeDoc.data().days - unusedDays,
+        endedOn: today,
+      });
+    }
+    transaction.update(memberRef, {
+      frozenFrom: null,
+      frozenUntil: null,
+      nextBillDate,
+      updatedAt: Timestamp.now(),
+    });
+
+    return { nextBillDate, unusedDays };
+  });
+};
+
+const toAttendanceRecord = (doc: DocumentData) =>
+  ({
+    id: doc.id,
+    ...doc.data(),
+    date: doc.data().date?.toDate(),
+    checkOutAt: doc.data().checkOutAt?.toDate() ?? null,
+  }) as AttendanceRecord;
+
 export const addAttendance = async (attendanceData: DocumentData) => {
   const attendanceRef = collection(db, FIRESTORE_COLLECTIONS.ATTENDANCE);
+  const data = withGymId(attendanceData);
   const docRef = await addDoc(attendanceRef, {
-    ...attendanceData,
+    ...data,
     createdAt: Timestamp.now(),
   });
-  return { id: docRef.id, ...attendanceData };
+  return { id: docRef.id, ...data };
+};
+
+export const checkInMember = async (
+  member: { id: string; name: string },
+  checkedInBy: { id: string; name: string }
+) => {
+  const now = new Date();
+  return addAttendance({
+    memberId: member.id,
+    memberName: member.name,
+    date: Timestamp.fromDate(now),
+    day: toDayKey(now),
+    checkOutAt: null,
+    checkedInBy,
+  });
+};
+
+export const checkOutMember = async (attendanceId: string) => {
+  const attendanceRef = doc(db, FIRESTORE_COLLECTIONS.ATTENDANCE, attendanceId);
+  await updateDoc(attendanceRef, { checkOutAt: Timestamp.now() });
 };
 
 export const getAttendance = async (
@@ -227,26 +1833,41 @@ export const getAttendance = async (
   startDate: Date,
   endDate: Date
 ) => {
-  const attendanceRef = collection(db, FIRESTORE_COLLECTIONS.ATTENDANCE);
-  const q = query(
-    attendanceRef,
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.ATTENDANCE,
     where("memberId", "==", memberId),
     where("date", ">=", Timestamp.fromDate(startDate)),
     where("date", "<=", Timestamp.fromDate(endDate))
   );
   const querySnapshot = await getDocs(q);
-  return querySnapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  }));
+  return querySnapshot.docs.map(toAttendanceRecord);
+};
+
+// Every visit to the gym between two dates, oldest first
+export const getAttendanceInRange = async (startDate: Date, endDate: Date) => {
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.ATTENDANCE,
+    where("date", ">=", Timestamp.fromDate(startDate)),
+    where("date", "<=", Timestamp.fromDate(endDate)),
+    orderBy("date", "asc")
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(toAttendanceRecord);
+};
+
+export const getAttendanceForDay = async (day: string = toDayKey()) => {
+  const q = gymQuery(FIRESTORE_COLLECTIONS.ATTENDANCE, where("day", "==", day));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(toAttendanceRecord)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
 };
 
 export const getProducts = async (): Promise<Product[]> => {
   const user = auth.currentUser;
   if (!user) throw new Error("Not authenticated");
 
-  const productsRef = collection(db, FIRESTORE_COLLECTIONS.PRODUCTS);
-  const q = query(productsRef);
+  const q = gymQuery(FIRESTORE_COLLECTIONS.PRODUCTS);
   const querySnapshot = await getDocs(q);
   return querySnapshot.docs.map((doc) => ({
     id: doc.id,
@@ -265,7 +1886,7 @@ export const addProduct = async (data: {
 }) => {
   const productsRef = collection(db, FIRESTORE_COLLECTIONS.PRODUCTS);
   const docRef = await addDoc(productsRef, {
-    ...data,
+    ...withGymId(data),
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
   });
@@ -284,7 +1905,7 @@ export const updateProduct = async (
 ) => {
   const productRef = doc(db, FIRESTORE_COLLECTIONS.PRODUCTS, id);
   await updateDoc(productRef, {
-    ...data,
+    ...withoutGymId(data),
     updatedAt: serverTimestamp(),
   });
 };
@@ -298,13 +1919,13 @@ export const getTrainers = async (): Promise<Trainer[]> => {
   const user = auth.currentUser;
   if (!user) throw new Error("Not authenticated");
 
-  const trainersRef = collection(db, FIRESTORE_COLLECTIONS.TRAINERS);
-  const q = query(trainersRef);
+  const q = gymQuery(FIRESTORE_COLLECTIONS.TRAINERS);
   const snapshot = await getDocs(q);
 
   return snapshot.docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
+    permissions: normalizePermissions(doc.data().permissions),
     createdAt: doc.data().createdAt?.toDate(),
     updatedAt: doc.data().updatedAt?.toDate(),
   })) as Trainer[];
@@ -319,7 +1940,7 @@ export const addTrainer = async (
   try {
     // Create Firebase Authentication account for trainer
     const trainerAuth = await createUserWithEmailAndPassword(
-      auth,
+      accountsAuth,
       data.email,
       data.password
     );
@@ -328,32 +1949,45 @@ export const addTrainer = async (
     const { password, ...trainerData } = data;
 
     const trainerDoc = {
-      ...trainerData,
+      ...withGymId(trainerData),
+      permissions: normalizePermissions(trainerData.permissions),
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
     };
+    const trainerRef = doc(collection(db, FIRESTORE_COLLECTIONS.TRAINERS));
 
-    const trainerRef = await addDoc(
-      collection(db, FIRESTORE_COLLECTIONS.TRAINERS),
-      trainerDoc
-    );
-
-    // Create user document with trainer role
+    // Create user profile keyed by the trainer's uid with trainer role
     const userData = {
       id: trainerAuth.user.uid,
       email: data.email,
+      username: data.name,
       role: "trainer" as const,
-      gymId: user.uid,
+      gymId: getActiveGymId(),
       trainerId: trainerRef.id,
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
     };
 
-    await addDoc(collection(db, FIRESTORE_COLLECTIONS.USERS), userData);
+    // The trainer and their profile are written together, so a denied write
+    // leaves neither behind; the new login is removed again in that case
+    const batch = writeBatch(db);
+    batch.set(trainerRef, trainerDoc);
+    batch.set(
+      doc(db, FIRESTORE_COLLECTIONS.USERS, trainerAuth.user.uid),
+      userData
+    );
+    try {
+      await batch.commit();
+    } catch (error) {
+      await deleteUser(trainerAuth.user);
+      throw error;
+    } finally {
+      await signOut(accountsAuth);
+    }
 
     return {
       id: trainerRef.id,
-      ...trainerData,
+      ...trainerDoc,
       createdAt: new Date(),
       updatedAt: new Date(),
     } as Trainer;
@@ -377,7 +2011,10 @@ export const updateTrainer = async (
 
   const trainerRef = doc(db, FIRESTORE_COLLECTIONS.TRAINERS, id);
   await updateDoc(trainerRef, {
-    ...data,
+    ...withoutGymId(data),
+    ...(data.permissions && {
+      permissions: normalizePermissions(data.permissions),
+    }),
     updatedAt: serverTimestamp(),
   });
 };
@@ -386,15 +2023,17 @@ export const deleteTrainer = async (id: string): Promise<void> => {
   const user = auth.currentUser;
   if (!user) throw new Error("Not authenticated");
 
-  // Delete trainer profile
-  const trainerRef = doc(db, FIRESTORE_COLLECTIONS.TRAINERS, id);
-  await deleteDoc(trainerRef);
-
-  // Delete associated user account
-  const usersRef = collection(db, FIRESTORE_COLLECTIONS.USERS);
-  const q = query(usersRef, where("trainerId", "==", id));
+  // Find the trainer's user profiles first, so a failed lookup leaves the
+  // trainer in place rather than orphaning their profile
+  const q = gymQuery(
+    FIRESTORE_COLLECTIONS.USERS,
+    where("role", "==", "trainer"),
+    where("trainerId", "==", id)
+  );
   const snapshot = await getDocs(q);
 
-  const deletePromises = snapshot.docs.map((doc) => deleteDoc(doc.ref));
-  await Promise.all(deletePromises);
+  const batch = writeBatch(db);
+  batch.delete(doc(db, FIRESTORE_COLLECTIONS.TRAINERS, id));
+  snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
 };
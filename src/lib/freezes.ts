@@ -0,0 +1,131 @@
+import { addDays, differenceInCalendarDays, format, parse } from "date-fns";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+export interface Freeze {
+  id: string;
+  gymId: string;
+  memberId: string;
+  // The frozen days, inclusive, in the member's "yyyy-MM-dd" format
+  startDate: string;
+  endDate: string;
+  days: number;
+  reason: string;
+  previousNextBillDate: string;
+  frozenBy: { id: string; name: string };
+  frozenAt: Date;
+  // Set when the member came back before the freeze ran out
+  endedOn?: string;
+}
+
+export interface FrozenMember {
+  frozenFrom?: string | null;
+  frozenUntil?: string | null;
+}
+
+const parseDay = (date: string) => parse(date, DATE_FORMAT, new Date());
+
+export const shiftDay = (date: string, days: number) =>
+  format(addDays(parseDay(date), days), DATE_FORMAT);
+
+// A freeze moves everything from its first day on: terms starting then start
+// later and terms still running then end later. Returns only the dates that
+// change, so payments and renewals stay matched to the member's bill date.
+export const shiftTermDates = (
+  term: {
+    periodStart?: string;
+    periodEnd?: string;
+    previousNextBillDate?: string;
+  },
+  from: string,
+  days: number
+) => {
+  const changes: Record<string, string> = {};
+  if (term.periodStart && term.periodStart >= from) {
+    changes.periodStart = shiftDay(term.periodStart, days);
+  }
+  if (term.periodEnd && term.periodEnd > from) {
+    changes.periodEnd = shiftDay(term.periodEnd, days);
+  }
+  if (term.previousNextBillDate && term.previousNextBillDate > from) {
+    changes.previousNextBillDate = shiftDay(term.previousNextBillDate, days);
+  }
+  return changes;
+};
+
+export const getFreezeDays = (startDate: string, endDate: string) =>
+  differenceInCalendarDays(parseDay(endDate), parseDay(startDate)) + 1;
+
+export const isFrozen = (member: FrozenMember, today: Date = new Date()) => {
+  const todayString = format(today, DATE_FORMAT);
+  return (
+    !!member.frozenFrom &&
+    !!member.frozenUntil &&
+    member.frozenFrom <= todayString &&
+    todayString <= member.frozenUntil
+  );
+};
+
+// A member's term starts with their latest renewal that has begun, or with
+// the day they joined when they have never renewed
+export const getTermStart = (
+  joiningDate: string,
+  renewals: { periodStart: string }[],
+  today: Date = new Date()
+) => {
+  const todayString = format(today, DATE_FORMAT);
+  return renewals
+    .map((renewal) => renewal.periodStart)
+    .filter((periodStart) => periodStart <= todayString)
+    .reduce(
+      (latest, periodStart) => (periodStart > latest ? periodStart : latest),
+      joiningDate
+    );
+};
+
+export const getFreezeDaysUsed = (freezes: Freeze[], termStart: string) =>
+  freezes
+    .filter((freeze) => freeze.startDate >= termStart)
+    .reduce((sum, freeze) => sum + freeze.days, 0);
+
+// Why a freeze cannot be booked, or null when it can. Freezes must start
+// today or later, fall before the term ends and fit in the plan's allowance.
+export const getFreezeError = (
+  {
+    startDate,
+    endDate,
+    member,
+    maxFreezeDays,
+    daysUsed,
+  }: {
+    startDate: string;
+    endDate: string;
+    member: FrozenMember & { nextBillDate: string };
+    maxFreezeDays?: number | null;
+    daysUsed: number;
+  },
+  today: Date = new Date()
+) => {
+  const todayString = format(today, DATE_FORMAT);
+  if (member.frozenUntil && member.frozenUntil >= todayString) {
+    return "Member already has a freeze booked";
+  }
+  if (!startDate || !endDate) {
+    return "Select the freeze start and end dates";
+  }
+  if (startDate < todayString) {
+    return "A freeze cannot start in the past";
+  }
+  if (endDate < startDate) {
+    return "Freeze must end on or after its start date";
+  }
+  if (startDate >= member.nextBillDate) {
+    return "Freeze must start before the membership expires";
+  }
+  const days = getFreezeDays(startDate, endDate);
+  if (maxFreezeDays != null && daysUsed + days > maxFreezeDays) {
+    const left = Math.max(maxFreezeDays - daysUsed, 0);
+    return `Only ${left} of ${maxFreezeDays} freeze days are left this term`;
+  }
+  return null;
+};
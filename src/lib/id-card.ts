@@ -0,0 +1,139 @@
+import { jsPDF } from "jspdf";
+import { format } from "date-fns";
+
+// CR80 is the standard ID-1 card size (credit card), in millimetres
+const CARD_WIDTH = 85.6;
+const CARD_HEIGHT = 54;
+const HEADER_HEIGHT = 12;
+const PHOTO_WIDTH = 20;
+const PHOTO_HEIGHT = 24;
+const QR_SIZE = 20;
+const LOGO_URL = "/royal-gym-logo.png";
+
+export interface IdCard {
+  memberId: string;
+  name: string;
+  photo?: string | null;
+  planName: string;
+  validUntil: string;
+  qrCode: string;
+}
+
+// Load an image and redraw it as a PNG data URL, cropped to the requested
+// aspect ratio. Returns null when the image cannot be fetched (e.g. CORS).
+const loadImage = (url: string, aspectRatio: number) =>
+  new Promise<string | null>((resolve) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => {
+      const sourceRatio = image.width / image.height;
+      const cropWidth =
+        sourceRatio > aspectRatio ? image.height * aspectRatio : image.width;
+      const cropHeight =
+        sourceRatio > aspectRatio ? image.height : image.width / aspectRatio;
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(cropWidth);
+      canvas.height = Math.round(cropHeight);
+      canvas
+        .getContext("2d")
+        ?.drawImage(
+          image,
+          (image.width - cropWidth) / 2,
+          (image.height - cropHeight) / 2,
+          cropWidth,
+          cropHeight,
+          0,
+          0,
+          canvas.width,
+          canvas.height
+        );
+      resolve(canvas.toDataURL("image/png"));
+    };
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+
+const drawCard = (
+  pdf: jsPDF,
+  card: IdCard,
+  gymName: string,
+  logo: string | null,
+  photo: string | null
+) => {
+  // Header band with logo and gym name
+  pdf.setFillColor(17, 24, 39);
+  pdf.rect(0, 0, CARD_WIDTH, HEADER_HEIGHT, "F");
+  if (logo) pdf.addImage(logo, "PNG", 3, 2, 8, 8);
+  pdf.setTextColor(255, 255, 255);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(11);
+  pdf.text(gymName, logo ? 13 : 4, 7.8);
+
+  // Photo, or the member's initial when there is none
+  const photoY = HEADER_HEIGHT + 4;
+  if (photo) {
+    pdf.addImage(photo, "PNG", 4, photoY, PHOTO_WIDTH, PHOTO_HEIGHT);
+  } else {
+    pdf.setFillColor(229, 231, 235);
+    pdf.rect(4, photoY, PHOTO_WIDTH, PHOTO_HEIGHT, "F");
+    pdf.setTextColor(107, 114, 128);
+    pdf.setFontSize(18);
+    pdf.text(card.name.charAt(0).toUpperCase(), 4 + PHOTO_WIDTH / 2, 31, {
+      align: "center",
+    });
+  }
+
+  // Member details
+  const textX = 28;
+  pdf.setTextColor(17, 24, 39);
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(9);
+  pdf.text(pdf.splitTextToSize(card.name, 32)[0], textX, 20);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(7);
+  pdf.text(`ID: ${card.memberId.padStart(4, "0")}`, textX, 25.5);
+  pdf.text(pdf.splitTextToSize(`Plan: ${card.planName}`, 32)[0], textX, 30);
+  pdf.text("Valid till:", textX, 34.5);
+  pdf.setFont("helvetica", "bold");
+  pdf.text(format(new Date(card.validUntil), "MMM d, yyyy"), textX, 38);
+
+  // QR code for kiosk check-in
+  const qrX = CARD_WIDTH - QR_SIZE - 4;
+  pdf.addImage(card.qrCode, "PNG", qrX, photoY, QR_SIZE, QR_SIZE);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(5);
+  pdf.setTextColor(107, 114, 128);
+  pdf.text("Scan to check in", qrX + QR_SIZE / 2, photoY + QR_SIZE + 3, {
+    align: "center",
+  });
+
+  // Footer rule
+  pdf.setDrawColor(17, 24, 39);
+  pdf.setLineWidth(1);
+  pdf.line(0, CARD_HEIGHT - 0.5, CARD_WIDTH, CARD_HEIGHT - 0.5);
+};
+
+// One card per page at CR80 size, ready to print on card stock or PVC
+export const exportIdCardsPdf = async (
+  cards: IdCard[],
+  gymName: string,
+  fileName: string
+) => {
+  const pdf = new jsPDF({
+    orientation: "landscape",
+    unit: "mm",
+    format: [CARD_WIDTH, CARD_HEIGHT],
+  });
+  const logo = await loadImage(LOGO_URL, 1);
+
+  for (const [index, card] of cards.entries()) {
+    if (index > 0) pdf.addPage([CARD_WIDTH, CARD_HEIGHT], "landscape");
+    const photo = card.photo
+      ? await loadImage(card.photo, PHOTO_WIDTH / PHOTO_HEIGHT)
+      : null;
+    drawCard(pdf, card, gymName, logo, photo);
+  }
+
+  pdf.save(fileName);
+};
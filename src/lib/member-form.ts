@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { insertMemberSchema } from "@shared/schema";
+
+// Validation for a member as entered on the add-member form. The bulk import
+// validates spreadsheet rows against the same rules.
+export const memberFormSchema = insertMemberSchema
+  .extend({
+    joiningDate: z.date({
+      required_error: "Joining date is required",
+    }),
+    nextBillDate: z.date({
+      required_error: "Next bill date is required",
+    }),
+    membershipPlanId: z.string({
+      required_error: "Please select a membership plan",
+    }),
+    dateOfBirth: z.date({
+      required_error: "Date of birth is required",
+    }),
+    name: z.string().min(1, "Name is required"),
+    phone: z
+      .string()
+      .min(1, "Phone number is required")
+      .refine((val) => {
+        // Remove +91 if present for validation
+        const number = val.replace("+91", "").trim();
+        return number.length === 10 && /^[0-9]+$/.test(number);
+      }, "Phone number must be 10 digits"),
+    address: z.string().min(1, "Address is required"),
+    isActive: z.boolean(),
+    photo: z.string().optional(),
+    // First payment collected at sign-up; payment status is derived from it
+    paymentAmount: z.coerce.number().min(0, "Amount cannot be negative"),
+    paymentDiscount: z.coerce.number().min(0, "Discount cannot be negative"),
+    paymentMode: z.enum(["cash", "upi", "card"]),
+  })
+  .omit({ gymId: true, isPaid: true });
+
+export type MemberFormValues = z.infer<typeof memberFormSchema>;
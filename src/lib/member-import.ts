@@ -0,0 +1,273 @@
+import { addMonths, format, isValid, parse } from "date-fns";
+import { read, utils } from "xlsx";
+import { z } from "zod";
+import { InsertMember } from "@shared/schema";
+import { memberFormSchema } from "@/lib/member-form";
+import { NewPayment, getCurrentPeriod, getMemberBalance } from "@/lib/payments";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+// Member fields a spreadsheet column can be mapped to. Headers are matched to
+// fields by these aliases, ignoring case, spaces and punctuation.
+export const IMPORT_FIELDS = {
+  name: {
+    label: "Name",
+    required: true,
+    aliases: ["name", "membername", "fullname"],
+  },
+  phone: {
+    label: "Phone",
+    required: true,
+    aliases: ["phone", "mobile", "phonenumber", "mobilenumber", "contact"],
+  },
+  address: { label: "Address", required: false, aliases: ["address"] },
+  dateOfBirth: {
+    label: "Date of Birth",
+    required: true,
+    aliases: ["dateofbirth", "dob", "birthdate", "birthday"],
+  },
+  joiningDate: {
+    label: "Joining Date",
+    required: true,
+    aliases: ["joiningdate", "joindate", "joined", "startdate"],
+  },
+  plan: {
+    label: "Plan",
+    required: true,
+    aliases: ["plan", "membershipplan", "membership", "planname"],
+  },
+  nextBillDate: {
+    label: "Next Bill Date",
+    required: false,
+    aliases: ["nextbilldate", "expiry", "expirydate", "validtill", "enddate"],
+  },
+  isActive: {
+    label: "Active",
+    required: false,
+    aliases: ["active", "isactive", "status"],
+  },
+  paymentAmount: {
+    label: "Amount Paid",
+    required: false,
+    aliases: ["amountpaid", "paid", "payment", "amount"],
+  },
+} as const;
+
+export type ImportField = keyof typeof IMPORT_FIELDS;
+
+// Spreadsheet column for each field, or null when not mapped
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface ImportPlan {
+  id: string;
+  name: string;
+  price: number;
+  durationMonths: number;
+}
+
+export interface ImportRow {
+  // Row number as shown in the spreadsheet (the header is row 1)
+  rowNumber: number;
+  name: string;
+  phone: string;
+  member: Omit<InsertMember, "gymId"> | null;
+  // Amount already paid for the current term, recorded as a cash payment
+  payment: Pick<NewPayment, "amount" | "periodStart" | "periodEnd"> | null;
+  errors: string[];
+}
+
+// The form's rules, except that registers often have no address
+const importRowSchema = memberFormSchema
+  .pick({
+    name: true,
+    phone: true,
+    dateOfBirth: true,
+    joiningDate: true,
+    isActive: true,
+    paymentAmount: true,
+  })
+  .extend({
+    address: z.string().optional(),
+    nextBillDate: z.date().optional(),
+    plan: z.string().min(1, "Plan is required"),
+  });
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const readSpreadsheet = async (file: File): Promise<Spreadsheet> => {
+  // CSV text is kept as typed; otherwise "05/12/1990" would be read month
+  // first
+  const workbook = read(await file.arrayBuffer(), {
+    cellDates: true,
+    raw: file.name.toLowerCase().endsWith(".csv"),
+  });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const [headers = []] = utils.sheet_to_json<string[]>(sheet, {
+    header: 1,
+    raw: false,
+  });
+  const rows = utils.sheet_to_json<Record<string, unknown>>(sheet, {
+    defval: "",
+  });
+  return { headers: headers.map(String).filter(Boolean), rows };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping =>
+  Object.fromEntries(
+    Object.entries(IMPORT_FIELDS).map(([field, { aliases }]) => [
+      field,
+      headers.find((header) =>
+        (aliases as readonly string[]).includes(normalizeHeader(header))
+      ) ?? null,
+    ])
+  ) as ColumnMapping;
+
+const DATE_FORMATS = [
+  "dd/MM/yyyy",
+  "d/M/yyyy",
+  "dd-MM-yyyy",
+  "d-M-yyyy",
+  "dd.MM.yyyy",
+  "yyyy-MM-dd",
+  "d MMM yyyy",
+  "dd-MMM-yyyy",
+  "d-MMM-yy",
+];
+
+// Spreadsheets give dates as Date cells or as text, usually day first.
+// Unreadable dates become an invalid Date so the schema reports them.
+const parseImportDate = (value: unknown) => {
+  if (value instanceof Date) return value;
+  const text = String(value ?? "").trim();
+  if (!text) return undefined;
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(text, dateFormat, new Date());
+    if (isValid(date)) return date;
+  }
+  return new Date(NaN);
+};
+
+const parseImportBoolean = (value: unknown) => {
+  const text = String(value ?? "")
+    .trim()
+    .toLowerCase();
+  if (!text) return true;
+  return !["no", "n", "false", "0", "inactive"].includes(text);
+};
+
+// Last 10 digits, so "+91 98765-43210" and "9876543210" match
+export const phoneKey = (phone: string) => phone.replace(/\D/g, "").slice(-10);
+
+// Validate every row, match plan names and flag phone numbers that already
+// belong to a member or appear earlier in the file
+export const validateImportRows = (
+  { rows }: Spreadsheet,
+  mapping: ColumnMapping,
+  plans: ImportPlan[],
+  existingPhones: string[]
+): ImportRow[] => {
+  const plansByName = new Map(
+    plans.map((plan) => [plan.name.trim().toLowerCase(), plan])
+  );
+  const knownPhones = new Set(existingPhones.map(phoneKey));
+  const phonesInFile = new Map<string, number>();
+
+  const cell = (row: Record<string, unknown>, field: ImportField) => {
+    const column = mapping[field];
+    return column ? row[column] : undefined;
+  };
+  const text = (value: unknown) => String(value ?? "").trim();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const phone = text(cell(row, "phone")).replace(/[\s-]/g, "");
+    const amount = text(cell(row, "paymentAmount"));
+    const result = importRowSchema.safeParse({
+      name: text(cell(row, "name")),
+      phone,
+      address: text(cell(row, "address")),
+      dateOfBirth: parseImportDate(cell(row, "dateOfBirth")),
+      joiningDate: parseImportDate(cell(row, "joiningDate")),
+      nextBillDate: parseImportDate(cell(row, "nextBillDate")),
+      isActive: parseImportBoolean(cell(row, "isActive")),
+      paymentAmount: amount || 0,
+      plan: text(cell(row, "plan")),
+    });
+
+    const errors = result.success
+      ? []
+      : result.error.issues.map(
+          (issue) =>
+            `${IMPORT_FIELDS[issue.path[0] as ImportField]?.label ?? issue.path[0]}: ${issue.message}`
+        );
+
+    const planName = text(cell(row, "plan"));
+    const plan = plansByName.get(planName.toLowerCase());
+    if (planName && !plan) errors.push(`Plan: No plan named "${planName}"`);
+
+    const key = phoneKey(phone);
+    if (key.length === 10) {
+      if (knownPhones.has(key)) {
+        errors.push("Phone: A member with this phone number already exists");
+      } else if (phonesInFile.has(key)) {
+        errors.push(`Phone: Same phone number as row ${phonesInFile.get(key)}`);
+      } else {
+        phonesInFile.set(key, rowNumber);
+      }
+    }
+
+    if (!result.success || !plan || errors.length > 0) {
+      return {
+        rowNumber,
+        name: text(cell(row, "name")),
+        phone,
+        member: null,
+        payment: null,
+        errors,
+      };
+    }
+
+    const values = result.data;
+    const nextBillDate = format(
+      values.nextBillDate ?? addMonths(values.joiningDate, plan.durationMonths),
+      DATE_FORMAT
+    );
+    const balance = getMemberBalance({ nextBillDate }, plan, [
+      { amount: values.paymentAmount, discount: 0, periodEnd: nextBillDate },
+    ]);
+
+    return {
+      rowNumber,
+      name: values.name,
+      phone: values.phone,
+      member: {
+        name: values.name,
+        phone: values.phone,
+        address: values.address ?? "",
+        photo: "",
+        dateOfBirth: format(values.dateOfBirth, DATE_FORMAT),
+        joiningDate: format(values.joiningDate, DATE_FORMAT),
+        nextBillDate,
+        isActive: values.isActive,
+        isPaid: balance.outstanding <= 0,
+        membershipPlanId: plan.id,
+      },
+      payment:
+        values.paymentAmount > 0
+          ? {
+              amount: values.paymentAmount,
+              ...getCurrentPeriod(nextBillDate, plan.durationMonths),
+            }
+          : null,
+      errors: [],
+    };
+  });
+};
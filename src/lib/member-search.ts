@@ -0,0 +1,65 @@
+// Firestore has no substring or case-insensitive search, so every member
+// document carries `searchKeywords`: the lowercase prefixes of each name word,
+// of the whole name and of the phone number's digits. A search then becomes a
+// single `array-contains` on the normalized term.
+
+// Filters offered on the members list. The dashboard cards link to the
+// filters that are not shown as buttons.
+export type MemberListFilter =
+  | "active"
+  | "expired"
+  | "inactive"
+  | "Not Paid"
+  | "enrolled"
+  | "expiring"
+  | "joinedThisMonth";
+
+export interface MemberListQuery {
+  search: string;
+  filter: MemberListFilter | null;
+  // Window for the "expiring" filter, in days from today
+  expiringDays?: number;
+}
+
+// Bump when the keyword format changes so existing members are re-indexed
+export const MEMBER_SEARCH_INDEX_VERSION = 1;
+
+// Longest prefix stored per word; longer search terms are truncated to match
+const MAX_PREFIX_LENGTH = 20;
+
+const normalizeText = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Indian numbers are stored with or without a country code, so index the last
+// ten digits, which is what staff type
+const normalizePhone = (phone: string) => phone.replace(/\D/g, "").slice(-10);
+
+const prefixes = (text: string) =>
+  Array.from({ length: Math.min(text.length, MAX_PREFIX_LENGTH) }, (_, i) =>
+    text.slice(0, i + 1)
+  );
+
+export const buildSearchKeywords = (name: string, phone: string) => {
+  const normalizedName = normalizeText(name ?? "");
+  const keywords = new Set([
+    ...normalizedName.split(" ").flatMap(prefixes),
+    ...prefixes(normalizedName),
+    ...prefixes(normalizePhone(phone ?? "")),
+  ]);
+  keywords.delete("");
+  return Array.from(keywords);
+};
+
+// The keyword to look up for what the user typed, or null for an empty search
+export const toSearchKeyword = (term: string) => {
+  const keyword = /^[\d\s+()-]+$/.test(term)
+    ? term.replace(/\D/g, "").replace(/^(91|0)(?=\d{10})/, "")
+    : normalizeText(term);
+  return keyword ? keyword.slice(0, MAX_PREFIX_LENGTH) : null;
+};
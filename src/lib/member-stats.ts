@@ -0,0 +1,99 @@
+// Dashboard counters kept on one document per gym, so the dashboard reads a
+// single document instead of every member. Counts that depend on today's date
+// (expiring, expired) cannot be maintained this way and are queried instead.
+export interface MemberStats {
+  total: number;
+  active: number;
+  // Active members with an outstanding balance
+  unpaid: number;
+  // Members by joining month, keyed "yyyy-MM"
+  joinedByMonth: Record<string, number>;
+  reconciledAt?: Date;
+}
+
+export type MemberStatsChange = Omit<MemberStats, "reconciledAt">;
+
+// The member fields the counters are derived from
+export interface CountedMember {
+  isActive: boolean;
+  isPaid: boolean;
+  joiningDate: string;
+}
+
+export const COUNTED_FIELDS: (keyof CountedMember)[] = [
+  "isActive",
+  "isPaid",
+  "joiningDate",
+];
+
+export const EMPTY_MEMBER_STATS: MemberStatsChange = {
+  total: 0,
+  active: 0,
+  unpaid: 0,
+  joinedByMonth: {},
+};
+
+const countMember = (member: CountedMember | null, sign: 1 | -1) => ({
+  total: member ? sign : 0,
+  active: member?.isActive ? sign : 0,
+  unpaid: member?.isActive && !member.isPaid ? sign : 0,
+  joinedByMonth: member?.joiningDate
+    ? { [member.joiningDate.slice(0, 7)]: sign }
+    : {},
+});
+
+export const sumMemberStatsChanges = (
+  changes: MemberStatsChange[]
+): MemberStatsChange =>
+  changes.reduce((sum, change) => {
+    const joinedByMonth = { ...sum.joinedByMonth };
+    Object.entries(change.joinedByMonth).forEach(([month, count]) => {
+      joinedByMonth[month] = (joinedByMonth[month] ?? 0) + count;
+      if (joinedByMonth[month] === 0) delete joinedByMonth[month];
+    });
+    return {
+      total: sum.total + change.total,
+      active: sum.active + change.active,
+      unpaid: sum.unpaid + change.unpaid,
+      joinedByMonth,
+    };
+  }, EMPTY_MEMBER_STATS);
+
+// How the counters move when a member is created (before is null), updated,
+// or deleted (after is null)
+export const getMemberStatsChange = (
+  before: CountedMember | null,
+  after: CountedMember | null
+) => sumMemberStatsChanges([countMember(before, -1), countMember(after, 1)]);
+
+export const isMemberStatsChangeEmpty = (change: MemberStatsChange) =>
+  change.total === 0 &&
+  change.active === 0 &&
+  change.unpaid === 0 &&
+  Object.keys(change.joinedByMonth).length === 0;
+
+export const computeMemberStats = (members: CountedMember[]) =>
+  sumMemberStatsChanges(members.map((member) => countMember(member, 1)));
+
+// Counter names whose stored value differs from a fresh count
+export const diffMemberStats = (
+  stored: MemberStatsChange | null,
+  actual: MemberStatsChange
+) => {
+  const labels = { total: "Total", active: "Active", unpaid: "Unpaid" };
+  const differences = (Object.keys(labels) as (keyof typeof labels)[])
+    .filter((key) => (stored?.[key] ?? 0) !== actual[key])
+    .map((key) => `${labels[key]} ${stored?.[key] ?? 0} → ${actual[key]}`);
+  const months = new Set([
+    ...Object.keys(stored?.joinedByMonth ?? {}),
+    ...Object.keys(actual.joinedByMonth),
+  ]);
+  const monthsOff = Array.from(months).filter(
+    (month) =>
+      (stored?.joinedByMonth[month] ?? 0) !== (actual.joinedByMonth[month] ?? 0)
+  );
+  if (monthsOff.length > 0) {
+    differences.push(`Joined counts for ${monthsOff.length} months`);
+  }
+  return differences;
+};
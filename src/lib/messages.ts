@@ -0,0 +1,61 @@
+// Every outgoing WhatsApp message is written to the `messages` collection
+// first and delivered by the queue runner, so failures are retried and
+// visible in the message log instead of being lost.
+export const MESSAGE_TYPES = {
+  welcome: "Welcome",
+  renewal_reminder: "Renewal Reminder",
+  expiry: "Expiry",
+  payment_receipt: "Payment Receipt",
+  birthday: "Birthday",
+  festival: "Festival",
+  win_back: "Win-back",
+} as const;
+
+export type MessageType = keyof typeof MESSAGE_TYPES;
+
+export const MESSAGE_STATUSES = {
+  queued: "Queued",
+  sent: "Sent",
+  failed: "Failed",
+  // Campaign messages held back while their campaign is paused or cancelled
+  paused: "Paused",
+  cancelled: "Cancelled",
+} as const;
+
+export type MessageStatus = keyof typeof MESSAGE_STATUSES;
+
+export interface Message {
+  id: string;
+  gymId: string;
+  memberId: string;
+  memberName: string;
+  phone: string;
+  type: MessageType;
+  body: string;
+  // Set on messages sent as part of a festival campaign
+  campaignId?: string;
+  status: MessageStatus;
+  attempts: number;
+  lastError: string | null;
+  // When the runner may next try to deliver a queued message
+  nextAttemptAt: Date | null;
+  createdAt: Date;
+  sentAt: Date | null;
+}
+
+export type NewMessage = Pick<
+  Message,
+  "memberId" | "memberName" | "phone" | "type" | "body" | "campaignId"
+>;
+
+export const MAX_ATTEMPTS = 5;
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+
+// Exponential backoff: 30s, 1m, 2m, 4m ... capped at 30 minutes
+export const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+
+// A runner claims a message for this long while sending it, so two open tabs
+// do not deliver the same message twice
+export const SEND_LEASE_MS = 2 * 60 * 1000;
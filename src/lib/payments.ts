@@ -0,0 +1,108 @@
+import { addMonths, format, parse } from "date-fns";
+import { z } from "zod";
+
+export const PAYMENT_MODES = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+} as const;
+
+export type PaymentMode = keyof typeof PAYMENT_MODES;
+
+export interface Payment {
+  id: string;
+  gymId: string;
+  memberId: string;
+  planId: string;
+  amount: number;
+  discount: number;
+  mode: PaymentMode;
+  // Billing period the payment covers, in the member's "yyyy-MM-dd" format.
+  // periodEnd is the member's nextBillDate for that term.
+  periodStart: string;
+  periodEnd: string;
+  collectedBy: { id: string; name: string };
+  note?: string;
+  paidAt: Date;
+}
+
+export type NewPayment = Omit<Payment, "id" | "gymId" | "paidAt">;
+
+export interface MemberBalance {
+  periodStart: string;
+  periodEnd: string;
+  due: number;
+  paid: number;
+  discount: number;
+  outstanding: number;
+}
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+// The term a member is currently billed for ends on their nextBillDate and
+// starts one plan duration earlier
+export const getCurrentPeriod = (
+  nextBillDate: string,
+  durationMonths: number
+) => ({
+  periodStart: format(
+    addMonths(parse(nextBillDate, DATE_FORMAT, new Date()), -durationMonths),
+    DATE_FORMAT
+  ),
+  periodEnd: nextBillDate,
+});
+
+// Outstanding amount for the member's current term: the plan price less every
+// payment and discount recorded against that term
+export const getMemberBalance = (
+  member: { nextBillDate: string },
+  plan: { price: number; durationMonths: number } | null,
+  payments: Pick<Payment, "amount" | "discount" | "periodEnd">[]
+): MemberBalance => {
+  const { periodStart, periodEnd } = getCurrentPeriod(
+    member.nextBillDate,
+    plan?.durationMonths ?? 0
+  );
+  const termPayments = payments.filter(
+    (payment) => payment.periodEnd === periodEnd
+  );
+  const paid = termPayments.reduce((sum, payment) => sum + payment.amount, 0);
+  const discount = termPayments.reduce(
+    (sum, payment) => sum + (payment.discount || 0),
+    0
+  );
+  const due = plan?.price ?? 0;
+
+  return {
+    periodStart,
+    periodEnd,
+    due,
+    paid,
+    discount,
+    outstanding: Math.max(0, due - paid - discount),
+  };
+};
+
+// Fields staff fill in when collecting a payment
+export const paymentFormSchema = z.object({
+  amount: z.coerce.number().min(0, "Amount cannot be negative"),
+  discount: z.coerce.number().min(0, "Discount cannot be negative"),
+  mode: z.enum(Object.keys(PAYMENT_MODES) as [PaymentMode, ...PaymentMode[]]),
+  note: z.string().optional(),
+});
+
+export type PaymentFormValues = z.infer<typeof paymentFormSchema>;
+
+export const toNewPayment = (
+  values: PaymentFormValues,
+  details: Pick<
+    NewPayment,
+    "memberId" | "planId" | "periodStart" | "periodEnd" | "collectedBy"
+  >
+): NewPayment => ({
+  ...details,
+  amount: values.amount,
+  discount: values.discount,
+  mode: values.mode,
+  note: values.note || "",
+});
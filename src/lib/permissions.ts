@@ -0,0 +1,230 @@
+// Single catalogue of trainer permissions. The TrainerPermissions type, the
+// trainer form, the stored Firestore document and the route guards are all
+// derived from this list, so adding a permission only happens here.
+
+export const PERMISSION_GROUPS = {
+  members: "Members",
+  attendance: "Attendance",
+  payments: "Payments",
+  products: "Products",
+  trainers: "Trainers",
+  insights: "Dashboard & Reports",
+} as const;
+
+export type PermissionGroup = keyof typeof PERMISSION_GROUPS;
+
+interface PermissionDefinition {
+  label: string;
+  description: string;
+  group: PermissionGroup;
+  // Permissions that are granted automatically alongside this one
+  requires?: readonly string[];
+}
+
+export const PERMISSIONS = {
+  canViewMembers: {
+    label: "View Members",
+    description: "Can view member information",
+    group: "members",
+  },
+  canEditMembers: {
+    label: "Edit Members",
+    description: "Can add and edit members and membership plans",
+    group: "members",
+    requires: ["canViewMembers"],
+  },
+  canViewAttendance: {
+    label: "View Attendance",
+    description: "Can view member attendance",
+    group: "attendance",
+  },
+  canEditAttendance: {
+    label: "Record Attendance",
+    description: "Can check members in and out",
+    group: "attendance",
+    requires: ["canViewAttendance"],
+  },
+  canViewPayments: {
+    label: "View Payments",
+    description: "Can view payment history and dues",
+    group: "payments",
+  },
+  canEditPayments: {
+    label: "Collect Payments",
+    description: "Can record payments and renewals",
+    group: "payments",
+    requires: ["canViewPayments"],
+  },
+  canViewProducts: {
+    label: "View Products",
+    description: "Can view product catalog",
+    group: "products",
+  },
+  canEditProducts: {
+    label: "Edit Products",
+    description: "Can edit product catalog",
+    group: "products",
+    requires: ["canViewProducts"],
+  },
+  canViewTrainers: {
+    label: "View Trainers",
+    description: "Can view other trainers",
+    group: "trainers",
+  },
+  canEditTrainers: {
+    label: "Edit Trainers",
+    description: "Can add, edit and remove trainers",
+    group: "trainers",
+    requires: ["canViewTrainers"],
+  },
+  canViewDashboard: {
+    label: "View Dashboard",
+    description: "Can view dashboard",
+    group: "insights",
+  },
+  canViewReports: {
+    label: "View Reports",
+    description: "Can view reports",
+    group: "insights",
+  },
+} as const satisfies Record<string, PermissionDefinition>;
+
+export type PermissionKey = keyof typeof PERMISSIONS;
+
+export type TrainerPermissions = Record<PermissionKey, boolean>;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as PermissionKey[];
+
+const getRequirements = (key: PermissionKey) => {
+  const definition = PERMISSIONS[key];
+  return (
+    "requires" in definition ? definition.requires : []
+  ) as readonly PermissionKey[];
+};
+
+export const defaultPermissions = Object.fromEntries(
+  PERMISSION_KEYS.map((key) => [key, false])
+) as TrainerPermissions;
+
+// Fill in permissions missing from older documents and grant everything a
+// granted permission requires
+export const normalizePermissions = (
+  permissions?: Partial<Record<string, boolean>> | null
+): TrainerPermissions => {
+  const normalized = { ...defaultPermissions };
+  PERMISSION_KEYS.forEach((key) => {
+    if (permissions?.[key]) {
+      normalized[key] = true;
+      getRequirements(key).forEach((required) => {
+        normalized[required] = true;
+      });
+    }
+  });
+  return normalized;
+};
+
+// Toggle one permission, keeping dependencies consistent in both directions:
+// granting "edit" grants "view", revoking "view" revokes "edit"
+export const setPermission = (
+  permissions: TrainerPermissions,
+  key: PermissionKey,
+  value: boolean
+): TrainerPermissions => {
+  const next = { ...permissions, [key]: value };
+  if (value) return normalizePermissions(next);
+
+  PERMISSION_KEYS.forEach((other) => {
+    if (getRequirements(other).includes(key)) {
+      next[other] = false;
+    }
+  });
+  return next;
+};
+
+// Whether going from one permission set to another only grants or removes
+// permissions in `held`; staff may not hand out access they lack
+export const changesOnlyHeld = (
+  current: TrainerPermissions,
+  next: TrainerPermissions,
+  held: (key: PermissionKey) => boolean
+) => PERMISSION_KEYS.every((key) => current[key] === next[key] || held(key));
+
+// Other permissions currently forcing this one on
+export const getDependents = (
+  permissions: TrainerPermissions,
+  key: PermissionKey
+) =>
+  PERMISSION_KEYS.filter(
+    (other) => permissions[other] && getRequirements(other).includes(key)
+  );
+
+export const getPermissionsByGroup = () =>
+  (Object.keys(PERMISSION_GROUPS) as PermissionGroup[]).map((group) => ({
+    group,
+    label: PERMISSION_GROUPS[group],
+    keys: PERMISSION_KEYS.filter((key) => PERMISSIONS[key].group === group),
+  }));
+
+export interface RolePreset {
+  id: string;
+  name: string;
+  description: string;
+  permissions: TrainerPermissions;
+}
+
+const preset = (
+  id: string,
+  name: string,
+  description: string,
+  granted: PermissionKey[]
+): RolePreset => ({
+  id,
+  name,
+  description,
+  permissions: normalizePermissions(
+    Object.fromEntries(granted.map((key) => [key, true]))
+  ),
+});
+
+export const ROLE_PRESETS: RolePreset[] = [
+  preset(
+    "front-desk",
+    "Front desk",
+    "Registers members, checks them in and collects payments",
+    [
+      "canEditMembers",
+      "canEditAttendance",
+      "canEditPayments",
+      "canViewProducts",
+      "canViewDashboard",
+    ]
+  ),
+  preset(
+    "floor-trainer",
+    "Floor trainer",
+    "Looks up members and records attendance",
+    ["canViewMembers", "canEditAttendance"]
+  ),
+  preset(
+    "head-coach",
+    "Head coach",
+    "Runs day-to-day operations except managing trainers",
+    [
+      "canEditMembers",
+      "canEditAttendance",
+      "canViewPayments",
+      "canEditProducts",
+      "canViewTrainers",
+      "canViewDashboard",
+      "canViewReports",
+    ]
+  ),
+];
+
+// The preset exactly matching a permission set, if any
+export const findPreset = (permissions: TrainerPermissions) =>
+  ROLE_PRESETS.find((rolePreset) =>
+    PERMISSION_KEYS.every(
+      (key) => rolePreset.permissions[key] === permissions[key]
+    )
+  );
@@ -1,17 +1,25 @@
 import { useAuth } from "@/hooks/use-auth";
+import { Access, usePermissions } from "@/hooks/use-permissions";
+import MissingProfile from "@/components/auth/missing-profile";
+import { getRouteAccess } from "@/components/layout/nav-items";
+import NoAccess from "@/pages/no-access";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
 
 export function ProtectedRoute({
   path,
   component: Component,
+  access = getRouteAccess(path),
 }: {
   path: string;
   component: () => React.JSX.Element;
+  // Defaults to the access of the matching sidebar entry
+  access?: Access;
 }) {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, profileError } = useAuth();
+  const { canAccess, isLoading: isLoadingPermissions } = usePermissions();
 
-  if (isLoading) {
+  if (isLoading || isLoadingPermissions) {
     return (
       <Route path={path}>
         <div className="flex items-center justify-center min-h-screen">
@@ -21,6 +29,14 @@ export function ProtectedRoute({
     );
   }
 
+  if (profileError) {
+    return (
+      <Route path={path}>
+        <MissingProfile message={profileError} />
+      </Route>
+    );
+  }
+
   if (!user) {
     return (
       <Route path={path}>
@@ -29,5 +45,9 @@ export function ProtectedRoute({
     );
   }
 
+  if (!canAccess(access)) {
+    return <Route path={path} component={NoAccess} />;
+  }
+
   return <Route path={path} component={Component} />;
 }
@@ -0,0 +1,72 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { Member } from "@shared/schema";
+import { MessageType } from "@/lib/messages";
+
+// A reminder rule fires a set number of days relative to a member's expiry
+// (nextBillDate): negative before it, 0 on the day, positive after it.
+export interface ReminderRule {
+  offsetDays: number;
+  type: Extract<MessageType, "renewal_reminder" | "expiry">;
+  enabled: boolean;
+}
+
+export const DEFAULT_REMINDER_RULES: ReminderRule[] = [
+  { offsetDays: -7, type: "renewal_reminder", enabled: true },
+  { offsetDays: -1, type: "renewal_reminder", enabled: true },
+  { offsetDays: 0, type: "renewal_reminder", enabled: true },
+  { offsetDays: 3, type: "expiry", enabled: true },
+];
+
+// If no staff browser ran the job on the exact day, the latest rule is still
+// sent for this many days afterwards
+export const REMINDER_CATCH_UP_DAYS = 2;
+
+export interface DueReminder {
+  member: Member;
+  rule: ReminderRule;
+}
+
+export const describeReminderRule = ({ offsetDays }: ReminderRule) => {
+  if (offsetDays === 0) return "On expiry day";
+  const days = Math.abs(offsetDays);
+  return `${days} day${days === 1 ? "" : "s"} ${
+    offsetDays < 0 ? "before" : "after"
+  } expiry`;
+};
+
+// One reminder per member, rule and billing period. Renewing moves
+// nextBillDate, which starts a new period.
+export const getReminderKey = (
+  gymId: string,
+  memberId: string,
+  offsetDays: number,
+  nextBillDate: string
+) => `${gymId}_${memberId}_${offsetDays}_${nextBillDate}`;
+
+// The reminder each member is due on `day`, if any
+export const findDueReminders = (
+  members: Member[],
+  rules: ReminderRule[],
+  day: Date = new Date()
+): DueReminder[] => {
+  const enabledRules = rules
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => a.offsetDays - b.offsetDays);
+
+  return members.flatMap((member) => {
+    if (member.isActive === false || !member.phone || !member.nextBillDate) {
+      return [];
+    }
+    const daysPastExpiry = differenceInCalendarDays(
+      day,
+      parseISO(member.nextBillDate)
+    );
+    const rule = enabledRules
+      .filter((rule) => rule.offsetDays <= daysPastExpiry)
+      .pop();
+    if (!rule || daysPastExpiry - rule.offsetDays > REMINDER_CATCH_UP_DAYS) {
+      return [];
+    }
+    return [{ member, rule }];
+  });
+};
@@ -0,0 +1,38 @@
+import { addMonths, format, parse } from "date-fns";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+export interface Renewal {
+  id: string;
+  gymId: string;
+  memberId: string;
+  planId: string;
+  planName: string;
+  // The term bought, in the member's "yyyy-MM-dd" format
+  periodStart: string;
+  periodEnd: string;
+  previousNextBillDate: string;
+  paymentId: string;
+  renewedBy: { id: string; name: string };
+  renewedAt: Date;
+}
+
+// A renewal starts where the current term ends, unless the membership has
+// already lapsed, in which case it starts today so no paid days are lost
+export const getRenewalPeriod = (
+  nextBillDate: string,
+  durationMonths: number,
+  today: Date = new Date()
+) => {
+  const todayString = format(today, DATE_FORMAT);
+  const periodStart =
+    nextBillDate && nextBillDate > todayString ? nextBillDate : todayString;
+
+  return {
+    periodStart,
+    periodEnd: format(
+      addMonths(parse(periodStart, DATE_FORMAT, today), durationMonths),
+      DATE_FORMAT
+    ),
+  };
+};
@@ -0,0 +1,236 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  endOfMonth,
+  format,
+  parse,
+  startOfMonth,
+  subMonths,
+} from "date-fns";
+import { Freeze } from "@/lib/freezes";
+import { Renewal } from "@/lib/renewals";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+// How many monthly cohorts the retention report shows
+export const COHORT_MONTHS = 12;
+
+// Months after joining at which retention is measured
+export const RETENTION_MILESTONES = [1, 3, 6, 12] as const;
+
+export type RetentionMilestone = (typeof RETENTION_MILESTONES)[number];
+
+// Members who lapsed longer ago than this are unlikely to come back
+export const WIN_BACK_MAX_DAYS = 90;
+
+// Don't message the same member again within this many days
+export const WIN_BACK_COOLDOWN_DAYS = 30;
+
+export interface RetentionMember {
+  id: string | number;
+  isActive: boolean;
+  joiningDate: string;
+  nextBillDate: string;
+}
+
+export interface Cohort {
+  month: string;
+  joined: number;
+  // Fraction of the cohort still paid up at each milestone; null until the
+  // milestone has been reached
+  retention: Record<RetentionMilestone, number | null>;
+}
+
+export interface ChurnPoint {
+  month: string;
+  // Members who were paid up during the month
+  members: number;
+  // Of those, members whose term ended in the month and never renewed
+  lapsed: number;
+  rate: number;
+}
+
+const parseDay = (day: string) => parse(day, DATE_FORMAT, new Date());
+const toDay = (date: Date) => format(date, DATE_FORMAT);
+
+// What retention needs to know about a renewal and a freeze
+export type RetentionRenewal = Pick<
+  Renewal,
+  | "memberId"
+  | "periodStart"
+  | "periodEnd"
+  | "previousNextBillDate"
+  | "renewedAt"
+>;
+export type RetentionFreeze = Pick<Freeze, "memberId" | "startDate" | "days">;
+
+// The first day of the oldest cohort shown
+export const getCohortStart = (months = COHORT_MONTHS, today = new Date()) =>
+  toDay(subMonths(startOfMonth(today), months - 1));
+
+interface Term {
+  start: string;
+  end: string;
+  // Renewed terms only count from the day they were bought
+  boughtOn: string;
+}
+
+// A member's paid terms, oldest first: the one they joined on, then one per
+// renewal. Freezes push a term's end back, so the frozen days are taken off
+// again here; a frozen member has not been retained for those days.
+const getTerms = (
+  member: RetentionMember,
+  renewals: RetentionRenewal[],
+  freezes: RetentionFreeze[]
+): Term[] => {
+  const sorted = [...renewals].sort((a, b) =>
+    a.periodStart.localeCompare(b.periodStart)
+  );
+  const terms: Term[] = [
+    {
+      start: member.joiningDate,
+      end: sorted[0]?.previousNextBillDate ?? member.nextBillDate,
+      boughtOn: member.joiningDate,
+    },
+    ...sorted.map((renewal) => ({
+      start: renewal.periodStart,
+      end: renewal.periodEnd,
+      boughtOn: toDay(renewal.renewedAt),
+    })),
+  ];
+  return terms.map((term) => {
+    const frozenDays = freezes
+      .filter(
+        (freeze) =>
+          freeze.startDate >= term.start && freeze.startDate < term.end
+      )
+      .reduce((sum, freeze) => sum + freeze.days, 0);
+    return {
+      ...term,
+      end: toDay(addDays(parseDay(term.end), -frozenDays)),
+    };
+  });
+};
+
+// A member is retained at a milestone if one of their paid terms, bought by
+// then, covers that day. Members who lapsed and came back count as lost for
+// the milestones that fell in the gap.
+export const getRetentionCohorts = (
+  members: RetentionMember[],
+  renewals: RetentionRenewal[],
+  freezes: RetentionFreeze[],
+  months = COHORT_MONTHS,
+  today = new Date()
+): Cohort[] => {
+  const groupByMember = <T extends { memberId: string }>(items: T[]) => {
+    const groups = new Map<string, T[]>();
+    items.forEach((item) =>
+      groups.set(item.memberId, [...(groups.get(item.memberId) ?? []), item])
+    );
+    return groups;
+  };
+  const renewalsByMember = groupByMember(renewals);
+  const freezesByMember = groupByMember(freezes);
+
+  return Array.from({ length: months }, (_, index) => {
+    const month = subMonths(startOfMonth(today), months - 1 - index);
+    const monthKey = format(month, "yyyy-MM");
+    const cohort = members
+      .filter((member) => member.joiningDate?.startsWith(monthKey))
+      .map((member) => {
+        const id = String(member.id);
+        return {
+          joiningDate: parseDay(member.joiningDate),
+          terms: getTerms(
+            member,
+            renewalsByMember.get(id) ?? [],
+            freezesByMember.get(id) ?? []
+          ),
+        };
+      });
+
+    const retention = Object.fromEntries(
+      RETENTION_MILESTONES.map((milestone) => {
+        const eligible = cohort.filter(
+          (member) => addMonths(member.joiningDate, milestone) <= today
+        );
+        const retained = eligible.filter((member) => {
+          const day = toDay(addMonths(member.joiningDate, milestone));
+          return member.terms.some(
+            (term) =>
+              term.boughtOn <= day && term.start <= day && day < term.end
+          );
+        });
+        return [
+          milestone,
+          eligible.length > 0 ? retained.length / eligible.length : null,
+        ];
+      })
+    ) as Cohort["retention"];
+
+    return {
+      month: format(month, "MMM yyyy"),
+      joined: cohort.length,
+      retention,
+    };
+  });
+};
+
+// Monthly churn over the last complete months: the share of members paid up
+// during a month whose term ended in it without being renewed
+export const getChurnTrend = (
+  members: RetentionMember[],
+  months = 12,
+  today = new Date()
+): ChurnPoint[] =>
+  Array.from({ length: months }, (_, index) => {
+    const month = subMonths(startOfMonth(today), months - index);
+    const start = toDay(month);
+    const end = toDay(endOfMonth(month));
+
+    const paidUp = members.filter(
+      (member) => member.joiningDate <= end && member.nextBillDate >= start
+    );
+    const lapsed = paidUp.filter((member) => member.nextBillDate <= end);
+
+    return {
+      month: format(month, "MMM yy"),
+      members: paidUp.length,
+      lapsed: lapsed.length,
+      rate: paidUp.length > 0 ? (lapsed.length / paidUp.length) * 100 : 0,
+    };
+  });
+
+// Recently lapsed members, longest-standing first: they were committed for
+// longest and are most likely to return
+export const getWinBackCandidates = <T extends RetentionMember>(
+  members: T[],
+  today = new Date()
+) => {
+  const todayKey = toDay(today);
+  const oldest = toDay(addDays(today, -WIN_BACK_MAX_DAYS));
+
+  return members
+    .filter(
+      (member) =>
+        member.isActive &&
+        member.nextBillDate < todayKey &&
+        member.nextBillDate >= oldest
+    )
+    .map((member) => ({
+      member,
+      daysLapsed: differenceInCalendarDays(
+        today,
+        parseDay(member.nextBillDate)
+      ),
+      tenureMonths: differenceInCalendarMonths(
+        parseDay(member.nextBillDate),
+        parseDay(member.joiningDate)
+      ),
+    }))
+    .sort(
+      (a, b) => b.tenureMonths - a.tenureMonths || a.daysLapsed - b.daysLapsed
+    );
+};
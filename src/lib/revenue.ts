@@ -0,0 +1,115 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachMonthOfInterval,
+  format,
+  parse,
+} from "date-fns";
+import { PAYMENT_MODES, Payment, PaymentMode } from "@/lib/payments";
+import { Renewal } from "@/lib/renewals";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+const MONTH_KEY = "yyyy-MM";
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface RevenueSummary {
+  revenue: number;
+  discounts: number;
+  payments: number;
+  newMembers: number;
+  renewals: number;
+  byMonth: {
+    month: string;
+    revenue: number;
+    newMembers: number;
+    renewals: number;
+  }[];
+  byPlan: { plan: string; revenue: number }[];
+  byMode: { mode: PaymentMode; label: string; amount: number }[];
+}
+
+const parseDay = (day: string) => parse(day, DATE_FORMAT, new Date());
+
+// Range bounds cover the whole of both days in local time
+export const toDateBounds = ({ from, to }: DateRange) => [
+  new Date(`${from}T00:00:00`),
+  new Date(`${to}T23:59:59.999`),
+];
+
+// The period of the same length ending the day before `range` starts
+export const getPreviousRange = ({ from, to }: DateRange): DateRange => {
+  const days = differenceInCalendarDays(parseDay(to), parseDay(from)) + 1;
+  return {
+    from: format(addDays(parseDay(from), -days), DATE_FORMAT),
+    to: format(addDays(parseDay(from), -1), DATE_FORMAT),
+  };
+};
+
+// Relative change in percent, or null when there is nothing to compare with
+export const getPercentChange = (current: number, previous: number) =>
+  previous === 0 ? null : ((current - previous) / previous) * 100;
+
+export const summarizeRevenue = (
+  range: DateRange,
+  payments: Payment[],
+  renewals: Pick<Renewal, "renewedAt">[],
+  joiningDates: string[],
+  planNames: Map<string, string>
+): RevenueSummary => {
+  const byMonth = new Map(
+    eachMonthOfInterval({
+      start: parseDay(range.from),
+      end: parseDay(range.to),
+    }).map((month) => [
+      format(month, MONTH_KEY),
+      {
+        month: format(month, "MMM yy"),
+        revenue: 0,
+        newMembers: 0,
+        renewals: 0,
+      },
+    ])
+  );
+  const byPlan = new Map<string, number>();
+  const byMode = new Map<PaymentMode, number>();
+
+  payments.forEach((payment) => {
+    const month = byMonth.get(format(payment.paidAt, MONTH_KEY));
+    if (month) month.revenue += payment.amount;
+    const plan = planNames.get(payment.planId) ?? "Other";
+    byPlan.set(plan, (byPlan.get(plan) ?? 0) + payment.amount);
+    byMode.set(payment.mode, (byMode.get(payment.mode) ?? 0) + payment.amount);
+  });
+  renewals.forEach((renewal) => {
+    const month = byMonth.get(format(renewal.renewedAt, MONTH_KEY));
+    if (month) month.renewals += 1;
+  });
+  joiningDates.forEach((joiningDate) => {
+    const month = byMonth.get(joiningDate.slice(0, 7));
+    if (month) month.newMembers += 1;
+  });
+
+  return {
+    revenue: payments.reduce((sum, payment) => sum + payment.amount, 0),
+    discounts: payments.reduce(
+      (sum, payment) => sum + (payment.discount || 0),
+      0
+    ),
+    payments: payments.length,
+    newMembers: joiningDates.length,
+    renewals: renewals.length,
+    byMonth: Array.from(byMonth.values()),
+    byPlan: Array.from(byPlan, ([plan, revenue]) => ({ plan, revenue })).sort(
+      (a, b) => b.revenue - a.revenue
+    ),
+    byMode: Array.from(byMode, ([mode, amount]) => ({
+      mode,
+      label: PAYMENT_MODES[mode] ?? mode,
+      amount,
+    })),
+  };
+};
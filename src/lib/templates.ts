@@ -0,0 +1,115 @@
+import { format } from "date-fns";
+import { MessageType } from "@/lib/messages";
+
+export const PLACEHOLDERS = {
+  name: "Member's name",
+  plan: "Membership plan name",
+  nextBillDate: "Next bill / expiry date",
+  gymName: "Your gym's name",
+  amount: "Amount paid",
+  festival: "Festival or event name",
+  discount: "Birthday discount on the next renewal",
+} as const;
+
+export type Placeholder = keyof typeof PLACEHOLDERS;
+
+export type TemplateValues = Partial<Record<Placeholder, string>>;
+
+const MEMBER_PLACEHOLDERS: Placeholder[] = [
+  "name",
+  "plan",
+  "nextBillDate",
+  "gymName",
+];
+
+interface TemplateDefinition {
+  label: string;
+  description: string;
+  placeholders: Placeholder[];
+  defaultBody: string;
+}
+
+export const TEMPLATES: Record<MessageType, TemplateDefinition> = {
+  welcome: {
+    label: "Welcome",
+    description: "Sent when a new member is added",
+    placeholders: MEMBER_PLACEHOLDERS,
+    defaultBody:
+      "Hey {{name}}! 👋 Welcome to the {{gymName}} family! 🏋️‍♂️ We're thrilled to have you with us. Let's crush those fitness goals together. 💪 If you need anything, we're just a message away! 🔥",
+  },
+  renewal_reminder: {
+    label: "Renewal Reminder",
+    description: "Sent before a membership expires",
+    placeholders: MEMBER_PLACEHOLDERS,
+    defaultBody:
+      "Hi {{name}}, your {{plan}} membership at {{gymName}} expires on {{nextBillDate}}. Renew now to keep your streak going! 💪",
+  },
+  expiry: {
+    label: "Expiry",
+    description: "Sent once a membership has expired",
+    placeholders: MEMBER_PLACEHOLDERS,
+    defaultBody:
+      "Hi {{name}}, your {{plan}} membership at {{gymName}} expired on {{nextBillDate}}. We miss you! Visit the front desk to renew.",
+  },
+  payment_receipt: {
+    label: "Payment Receipt",
+    description: "Sent when a payment is recorded",
+    placeholders: [...MEMBER_PLACEHOLDERS, "amount"],
+    defaultBody:
+      "Hi {{name}}, we received ₹{{amount}} for your {{plan}} membership. Valid until {{nextBillDate}}. Thank you! – {{gymName}}",
+  },
+  birthday: {
+    label: "Birthday",
+    description: "Sent on a member's birthday",
+    placeholders: [...MEMBER_PLACEHOLDERS, "discount"],
+    defaultBody:
+      "Happy birthday, {{name}}! 🎉 Wishing you a strong and healthy year ahead from all of us at {{gymName}}.",
+  },
+  festival: {
+    label: "Festival",
+    description: "Default text for festival greetings",
+    placeholders: [...MEMBER_PLACEHOLDERS, "festival"],
+    defaultBody:
+      "Hi {{name}}, wishing you and your family a very happy {{festival}}! 🎊 – {{gymName}}",
+  },
+  win_back: {
+    label: "Win-back",
+    description: "Sent from the retention report to members who have lapsed",
+    placeholders: MEMBER_PLACEHOLDERS,
+    defaultBody:
+      "Hi {{name}}, we haven't seen you at {{gymName}} since your {{plan}} membership ended on {{nextBillDate}}. We'd love to have you back! Reply to this message or drop by to restart. 💪",
+  },
+};
+
+export const TEMPLATE_TYPES = Object.keys(TEMPLATES) as MessageType[];
+
+const PLACEHOLDER_PATTERN = /{{\s*([^{}]*?)\s*}}/g;
+
+// Placeholders used in the body that the template type does not support
+export const findUnknownPlaceholders = (body: string, type: MessageType) => {
+  const allowed = TEMPLATES[type].placeholders as string[];
+  const unknown = new Set<string>();
+  for (const [, name] of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!allowed.includes(name)) unknown.add(name);
+  }
+  return [...unknown];
+};
+
+export const renderTemplate = (body: string, values: TemplateValues) =>
+  body.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    name in values ? (values[name as Placeholder] ?? "") : match
+  );
+
+// Placeholder values for a member
+export const getMemberTemplateValues = (
+  member: { name: string; nextBillDate: string },
+  planName: string | undefined,
+  gymName: string | null | undefined
+): TemplateValues => ({
+  name: member.name,
+  plan: planName ?? "",
+  nextBillDate: member.nextBillDate
+    ? format(new Date(member.nextBillDate), "MMM d, yyyy")
+    : "",
+  gymName: gymName || "our gym",
+});
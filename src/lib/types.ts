@@ -1,13 +1,6 @@
-export interface TrainerPermissions {
-  canViewMembers: boolean;
-  canEditMembers: boolean;
-  canViewProducts: boolean;
-  canEditProducts: boolean;
-  canViewTrainers: boolean;
-  canEditTrainers: boolean;
-  canViewDashboard: boolean;
-  canViewReports: boolean;
-}
+import type { TrainerPermissions } from "./permissions";
+
+export type { TrainerPermissions } from "./permissions";
 
 export interface Trainer {
   id: string;
@@ -23,15 +16,16 @@ export interface Trainer {
 
 export type UserRole = "admin" | "trainer";
 
+// Signed-in account, built from the `users` profile keyed by Firebase uid and
+// the gym it belongs to. Gym owners are "admin"; staff accounts are "trainer".
 export interface User {
   id: string;
   email: string;
   gymName: string | null;
   username: string;
-  password: string;
   photo: string | null;
   createdAt: Date;
-  role: "admin" | "trainer";
+  role: UserRole;
   trainerId?: string;
   gymId: string;
 }
@@ -0,0 +1,120 @@
+import { io, Socket } from "socket.io-client";
+
+// Each gym runs (or rents) its own WhatsApp gateway: a small server that keeps
+// a WhatsApp Web session alive and exposes it over HTTP and socket.io. The
+// base URL and API key are stored per gym in the messaging settings.
+export interface WhatsAppGatewaySettings {
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface GatewayStatus {
+  loggedIn: boolean;
+}
+
+export interface SendMessageResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+// Events pushed by the gateway while a session is being (re)established
+interface GatewayServerEvents {
+  qr: (qrDataUrl: string) => void;
+  ready: () => void;
+  disconnected: (reason?: string) => void;
+  auth_failure: (message: string) => void;
+}
+
+export type GatewayEventHandlers = Partial<GatewayServerEvents> & {
+  connect_error?: (error: Error) => void;
+};
+
+export class WhatsAppGatewayError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = "WhatsAppGatewayError";
+  }
+}
+
+export interface WhatsAppClient {
+  getStatus: () => Promise<GatewayStatus>;
+  sendMessage: (phone: string, message: string) => Promise<SendMessageResult>;
+  // Subscribe to session events; returns a function that closes the socket
+  subscribe: (handlers: GatewayEventHandlers) => () => void;
+}
+
+const normalizeBaseUrl = (baseUrl: string) =>
+  baseUrl.trim().replace(/\/+$/, "");
+
+export const createWhatsAppClient = (
+  settings: WhatsAppGatewaySettings
+): WhatsAppClient => {
+  const baseUrl = normalizeBaseUrl(settings.baseUrl);
+
+  const request = async <T>(path: string, init: RequestInit = {}) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": settings.apiKey,
+          ...init.headers,
+        },
+      });
+    } catch {
+      throw new WhatsAppGatewayError(
+        `Could not reach the WhatsApp gateway at ${baseUrl}`
+      );
+    }
+
+    if (!response.ok) {
+      throw new WhatsAppGatewayError(
+        response.status === 401 || response.status === 403
+          ? "The WhatsApp gateway rejected the API key"
+          : `WhatsApp gateway error (${response.status})`,
+        response.status
+      );
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    getStatus: () => request<GatewayStatus>("/status"),
+
+    sendMessage: (phone, message) =>
+      request<SendMessageResult>("/send-whatsapp", {
+        method: "POST",
+        body: JSON.stringify({ phone, message }),
+      }),
+
+    subscribe: (handlers) => {
+      const socket: Socket<GatewayServerEvents> = io(baseUrl, {
+        auth: { apiKey: settings.apiKey },
+      });
+      if (handlers.qr) socket.on("qr", handlers.qr);
+      if (handlers.ready) socket.on("ready", handlers.ready);
+      if (handlers.disconnected) {
+        socket.on("disconnected", handlers.disconnected);
+      }
+      if (handlers.auth_failure) {
+        socket.on("auth_failure", handlers.auth_failure);
+      }
+      if (handlers.connect_error) {
+        socket.on("connect_error", handlers.connect_error);
+      }
+      return () => {
+        socket.disconnect();
+      };
+    },
+  };
+};
+
+export const isGatewayConfigured = (
+  settings?: Partial<WhatsAppGatewaySettings> | null
+): settings is WhatsAppGatewaySettings =>
+  !!settings?.baseUrl && !!settings?.apiKey;
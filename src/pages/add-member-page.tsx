@@ -6,12 +6,26 @@ import { format, parse } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { usePaymentReceipt } from "@/hooks/use-payment-receipt";
+import { usePermissions } from "@/hooks/use-permissions";
 import {
   getMembershipPlans,
   addMember,
   updateMember,
+  getGymDoc,
+  syncMemberPaymentStatus,
+  enqueueMessage,
+  getMessageTemplates,
   FIRESTORE_COLLECTIONS,
 } from "@/lib/firestore";
+import {
+  PAYMENT_MODES,
+  PaymentMode,
+  getCurrentPeriod,
+  getMemberBalance,
+} from "@/lib/payments";
+import { getMemberTemplateValues, renderTemplate } from "@/lib/templates";
+import { MemberFormValues, memberFormSchema } from "@/lib/member-form";
 import { uploadToCloudinary } from "@/lib/cloudinary";
 import AppLayout from "@/components/layout/app-layout";
 import { Button } from "@/components/ui/button";
@@ -41,56 +55,23 @@ import {
 } from "@/components/ui/popover";
 import { CalendarIcon, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { insertMemberSchema, InsertMember } from "@shared/schema";
-import { z } from "zod";
-import { Checkbox } from "@/components/ui/checkbox";
+import { InsertMember } from "@shared/schema";
 import { useLocation } from "wouter";
-import { doc, getDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { DocumentData } from "firebase/firestore";
 import { Switch } from "@/components/ui/switch";
 
-// Extend the schema for form validation
-const formSchema = insertMemberSchema
-  .extend({
-    joiningDate: z.date({
-      required_error: "Joining date is required",
-    }),
-    nextBillDate: z.date({
-      required_error: "Next bill date is required",
-    }),
-    membershipPlanId: z.string({
-      required_error: "Please select a membership plan",
-    }),
-    dateOfBirth: z.date({
-      required_error: "Date of birth is required",
-    }),
-    name: z.string().min(1, "Name is required"),
-    phone: z
-      .string()
-      .min(1, "Phone number is required")
-      .refine((val) => {
-        // Remove +91 if present for validation
-        const number = val.replace("+91", "").trim();
-        return number.length === 10 && /^[0-9]+$/.test(number);
-      }, "Phone number must be 10 digits"),
-    address: z.string().min(1, "Address is required"),
-    isActive: z.boolean(),
-    isPaid: z.boolean(),
-    photo: z.string().optional(),
-  })
-  .omit({ gymId: true });
-
-type FormValues = z.infer<typeof formSchema>;
+type FormValues = MemberFormValues;
 
 export default function AddMemberPage() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const sendPaymentReceipt = usePaymentReceipt();
+  const { hasPermission } = usePermissions();
+  const canCollectPayments = hasPermission("canEditPayments");
   const [isPhotoUploaded, setIsPhotoUploaded] = useState(false);
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [formKey, setFormKey] = useState(0);
-  const [checkboxKey, setCheckboxKey] = useState(0);
   const [isEditMode, setIsEditMode] = useState(false);
   const [memberId, setMemberId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -98,7 +79,7 @@ export default function AddMemberPage() {
 
   // Initialize the form
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(memberFormSchema),
     defaultValues: {
       name: "",
       phone: "",
@@ -106,9 +87,11 @@ export default function AddMemberPage() {
       photo: "",
       joiningDate: new Date(),
       isActive: true,
-      isPaid: false,
       membershipPlanId: undefined,
       dateOfBirth: new Date(),
+      paymentAmount: 0,
+      paymentDiscount: 0,
+      paymentMode: "cash",
     },
     mode: "onChange",
   });
@@ -131,20 +114,12 @@ export default function AddMemberPage() {
 
       setIsLoading(true);
       try {
-        const memberRef = doc(db, FIRESTORE_COLLECTIONS.MEMBERS, memberId);
-
-        let memberSnap = await getDoc(memberRef);
-        let memberData: DocumentData | undefined;
-
-        if (!memberSnap.exists()) {
-          console.log(
-            "Document not found in 'members' collection, trying 'MEMBERS'"
-          );
-        }
-
-        if (memberSnap.exists()) {
-          memberData = memberSnap.data();
+        const memberData: DocumentData | null = await getGymDoc(
+          FIRESTORE_COLLECTIONS.MEMBERS,
+          memberId
+        );
 
+        if (memberData) {
           const joiningDate = parseDate(memberData?.joiningDate);
           const nextBillDate = parseDate(memberData?.nextBillDate);
           const dateOfBirth = parseDate(memberData?.dateOfBirth);
@@ -163,7 +138,6 @@ export default function AddMemberPage() {
               "isActive",
               memberData?.isActive !== undefined ? memberData?.isActive : true
             );
-            form.setValue("isPaid", memberData?.isPaid || false);
 
             if (memberData?.membershipPlanId) {
               form.setValue(
@@ -254,6 +228,9 @@ export default function AddMemberPage() {
         shouldValidate: true,
         shouldDirty: true,
       });
+      if (!isEditMode) {
+        form.setValue("paymentAmount", selectedPlan.price);
+      }
     }
   };
 
@@ -302,68 +279,118 @@ export default function AddMemberPage() {
       photo: "",
       joiningDate: new Date(),
       isActive: true,
-      isPaid: false,
       membershipPlanId: undefined,
       nextBillDate: undefined,
       dateOfBirth: new Date(),
+      paymentAmount: 0,
+      paymentDiscount: 0,
+      paymentMode: "cash",
     });
     setIsPhotoUploaded(false);
     setPhotoPreview(null);
     setFormKey((prev) => prev + 1);
-    setCheckboxKey((prev) => prev + 1);
     // Navigate back to home page
     navigate("/");
   };
 
-  // Function to send WhatsApp welcome message
-  const sendWelcomeWhatsApp = async (phone: string, name: string) => {
+  // Queue the WhatsApp welcome message; the message queue delivers it and
+  // retries if the gateway is unavailable
+  const queueWelcomeWhatsApp = async (
+    memberId: string,
+    member: InsertMember
+  ) => {
     try {
-      const welcomeMessage = `Hey ${name}! 👋 Welcome to the Royal Gym family in Mauda! 🏋️‍♂️ We're thrilled to have you with us. Let's crush those fitness goals together. 💪 If you need anything, we're just a message away! 🔥`;
-      const response = await fetch("http://165.232.176.49:3001/send-whatsapp", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          phone,
-          message: welcomeMessage,
-        }),
+      const templates = await queryClient.fetchQuery({
+        queryKey: ["message-templates"],
+        queryFn: getMessageTemplates,
       });
-
-      const data = await response.json();
-
-      if (data.success) {
-        toast({
-          title: "Welcome message sent",
-          description:
-            "A welcome message has been sent to the member's WhatsApp.",
-        });
-      } else {
-        console.error("Failed to send WhatsApp message:", data.error);
-      }
+      const plan = membershipPlans.find(
+        (plan) => plan.id === member.membershipPlanId
+      );
+      await enqueueMessage({
+        memberId,
+        memberName: member.name,
+        phone: member.phone,
+        type: "welcome",
+        body: renderTemplate(
+          templates.welcome,
+          getMemberTemplateValues(member, plan?.name, user?.gymName)
+        ),
+      });
+      queryClient.invalidateQueries({ queryKey: ["message-queue"] });
     } catch (error) {
-      console.error("Error sending WhatsApp welcome message:", error);
+      console.error("Error queueing WhatsApp welcome message:", error);
     }
   };
 
   const addMemberMutation = useMutation({
-    mutationFn: async (data: InsertMember) => {
-      return addMember({
-        ...data,
-        gymId: user?.id,
-      });
+    mutationFn: async ({
+      data,
+      payment,
+    }: {
+      data: InsertMember;
+      // Null when the staff member may not collect payments
+      payment: { amount: number; discount: number; mode: PaymentMode } | null;
+    }) => {
+      const plan = membershipPlans.find(
+        (plan) => plan.id === data.membershipPlanId
+      );
+      const period = getCurrentPeriod(
+        data.nextBillDate,
+        plan?.durationMonths ?? 0
+      );
+      const joiningPayment =
+        payment && (payment.amount > 0 || payment.discount > 0)
+          ? {
+              ...payment,
+              ...period,
+              planId: data.membershipPlanId,
+              collectedBy: { id: user?.id ?? "", name: user?.username ?? "" },
+              note: "Joining payment",
+            }
+          : null;
+      const balance = getMemberBalance(
+        data,
+        plan ?? null,
+        joiningPayment ? [joiningPayment] : []
+      );
+      return addMember(
+        {
+          ...data,
+          gymId: user?.gymId,
+          // Left unpaid for someone who can collect the joining payment
+          isPaid: !!payment && balance.outstanding === 0,
+        },
+        joiningPayment
+      );
     },
-    onSuccess: (_, variables) => {
+    onSuccess: (member, { data: variables, payment }) => {
       toast({
         title: "Member added",
         description: "The new member has been added successfully.",
       });
 
-      sendWelcomeWhatsApp(variables.phone, variables.name);
+      // The receipt is queued after the welcome so it arrives second
+      const plan = membershipPlans.find(
+        (plan) => plan.id === variables.membershipPlanId
+      );
+      queueWelcomeWhatsApp(member.id, variables).then(() =>
+        sendPaymentReceipt({
+          member: {
+            id: member.id,
+            name: variables.name,
+            phone: variables.phone,
+          },
+          planName: plan?.name,
+          amount: payment?.amount ?? 0,
+          nextBillDate: variables.nextBillDate,
+        })
+      );
 
       handleCancel();
       queryClient.invalidateQueries({ queryKey: ["members"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["revenue"] });
       queryClient.invalidateQueries({ queryKey: ["membershipPlans"] });
       navigate("/");
     },
@@ -386,7 +413,10 @@ export default function AddMemberPage() {
       id: string;
       data: Partial<InsertMember>;
     }) => {
-      return updateMember(id, data);
+      const member = await updateMember(id, data);
+      // A new plan or bill date changes what is owed for the current term
+      await syncMemberPaymentStatus(id);
+      return member;
     },
     onSuccess: () => {
       toast({
@@ -396,6 +426,7 @@ export default function AddMemberPage() {
 
       queryClient.invalidateQueries({ queryKey: ["members"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["revenue"] });
       queryClient.invalidateQueries({ queryKey: ["membershipPlans"] });
 
       // Navigate back to dashboard
@@ -412,26 +443,34 @@ export default function AddMemberPage() {
   });
 
   const onSubmit = (values: FormValues) => {
-    const memberData: InsertMember = {
+    const memberData: Omit<InsertMember, "isPaid"> = {
       name: values.name,
       phone: values.phone,
       address: values.address,
       photo: values.photo,
-      gymId: user?.id || "",
+      gymId: user?.gymId || "",
       dateOfBirth: format(values.dateOfBirth, "yyyy-MM-dd"),
       joiningDate: format(values.joiningDate, "yyyy-MM-dd"),
       nextBillDate: values.nextBillDate
         ? format(values.nextBillDate, "yyyy-MM-dd")
         : format(values.joiningDate, "yyyy-MM-dd"),
       isActive: values.isActive,
-      isPaid: values.isPaid,
       membershipPlanId: values.membershipPlanId || "",
     };
 
     if (isEditMode && memberId) {
       updateMemberMutation.mutate({ id: memberId, data: memberData });
     } else {
-      addMemberMutation.mutate(memberData);
+      addMemberMutation.mutate({
+        data: { ...memberData, isPaid: false },
+        payment: canCollectPayments
+          ? {
+              amount: values.paymentAmount,
+              discount: values.paymentDiscount,
+              mode: values.paymentMode,
+            }
+          : null,
+      });
     }
   };
 
@@ -788,28 +827,76 @@ export default function AddMemberPage() {
                       )}
                     />
 
-                    {/* Payment Status */}
-                    <FormField
-                      control={form.control}
-                      name="isPaid"
-                      render={({ field }) => (
-                        <FormItem className="flex flex-row items-start space-x-2 md:space-x-3 space-y-0 rounded-md border p-2 md:p-4">
-                          <FormControl>
-                            <Checkbox
-                              key={checkboxKey}
-                              checked={field.value}
-                              onCheckedChange={field.onChange}
-                            />
-                          </FormControl>
-                          <div className="space-y-1 leading-none">
-                            <FormLabel>Payment Status</FormLabel>
-                            <p className="text-sm text-muted-foreground">
-                              {field.value ? "Paid" : "Not Paid"}
-                            </p>
-                          </div>
-                        </FormItem>
-                      )}
-                    />
+                    {/* Joining Payment */}
+                    {!isEditMode && canCollectPayments && (
+                      <div className="md:col-span-2 rounded-md border p-2 md:p-4">
+                        <div className="space-y-1 mb-3">
+                          <p className="text-sm font-medium">Joining Payment</p>
+                          <p className="text-sm text-muted-foreground">
+                            Payment status is worked out from the amount
+                            collected. Record further instalments from the
+                            member's details.
+                          </p>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 md:gap-4">
+                          <FormField
+                            control={form.control}
+                            name="paymentAmount"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Amount Collected (₹)</FormLabel>
+                                <FormControl>
+                                  <Input type="number" min={0} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="paymentDiscount"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Discount (₹)</FormLabel>
+                                <FormControl>
+                                  <Input type="number" min={0} {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="paymentMode"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Payment Mode</FormLabel>
+                                <Select
+                                  onValueChange={field.onChange}
+                                  value={field.value}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {Object.entries(PAYMENT_MODES).map(
+                                      ([mode, label]) => (
+                                        <SelectItem key={mode} value={mode}>
+                                          {label}
+                                        </SelectItem>
+                                      )
+                                    )}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   <div className="mt-8 flex justify-end">
@@ -7,14 +7,14 @@ import "./auth-page.css";
 
 export default function AuthPage() {
   const [, setLocation] = useLocation();
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, profileError } = useAuth();
   const [forgotPasswordOpen, setForgotPasswordOpen] = useState(false);
 
   useEffect(() => {
-    if (user && !isLoading) {
+    if ((user || profileError) && !isLoading) {
       setLocation("/");
     }
-  }, [user, isLoading, setLocation]);
+  }, [user, profileError, isLoading, setLocation]);
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center relative auth-bg-container">
@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useTodayAttendance } from "@/hooks/useTodayAttendance";
+import { queryClient } from "@/lib/queryClient";
+import { checkInMember, checkOutMember, getMembers } from "@/lib/firestore";
+import { getCheckInStatus } from "@/lib/attendance";
+import { Member } from "@shared/schema";
+import AppLayout from "@/components/layout/app-layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, LogIn, LogOut, ScanLine, Search } from "lucide-react";
+
+const MAX_RESULTS = 8;
+
+export default function CheckInPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const canEditAttendance = hasPermission("canEditAttendance");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [pendingMember, setPendingMember] = useState<{
+    member: Member;
+    warning: string;
+  } | null>(null);
+
+  const { data: members = [], isLoading: isLoadingMembers } = useQuery({
+    queryKey: ["members", "check-in"],
+    queryFn: async () => (await getMembers()) as unknown as Member[],
+  });
+  const { data: visits = [], isLoading: isLoadingVisits } =
+    useTodayAttendance();
+
+  const term = searchTerm.trim().toLowerCase();
+  const results = term
+    ? members
+        .filter(
+          (member) =>
+            member.name?.toLowerCase().includes(term) ||
+            member.phone?.includes(term) ||
+            String(member.id).toLowerCase().includes(term)
+        )
+        .slice(0, MAX_RESULTS)
+    : [];
+
+  const openVisitFor = (memberId: string) =>
+    visits.find((visit) => visit.memberId === memberId && !visit.checkOutAt);
+
+  const invalidateAttendance = () => {
+    queryClient.invalidateQueries({ queryKey: ["attendance"] });
+  };
+
+  const checkInMutation = useMutation({
+    mutationFn: (member: Member) =>
+      checkInMember(
+        { id: String(member.id), name: member.name },
+        { id: user?.id ?? "", name: user?.username ?? "" }
+      ),
+    onSuccess: (_, member) => {
+      toast({
+        title: "Checked in",
+        description: `${member.name} checked in at ${format(
+          new Date(),
+          "h:mm a"
+        )}.`,
+      });
+      setSearchTerm("");
+      invalidateAttendance();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to check in",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const checkOutMutation = useMutation({
+    mutationFn: (attendanceId: string) => checkOutMember(attendanceId),
+    onSuccess: () => {
+      toast({ title: "Checked out" });
+      invalidateAttendance();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to check out",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCheckIn = (member: Member) => {
+    const status = getCheckInStatus(member);
+    if (!status.allowed) return;
+    if (status.warning) {
+      setPendingMember({ member, warning: status.warning });
+      return;
+    }
+    checkInMutation.mutate(member);
+  };
+
+  const renderAction = (member: Member) => {
+    const openVisit = openVisitFor(String(member.id));
+    if (openVisit) {
+      return (
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!canEditAttendance || checkOutMutation.isPending}
+          onClick={() => checkOutMutation.mutate(openVisit.id)}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Check Out
+        </Button>
+      );
+    }
+
+    const status = getCheckInStatus(member);
+    if (!status.allowed) {
+      return <Badge variant="outline">{status.reason}</Badge>;
+    }
+    return (
+      <div className="flex items-center gap-2">
+        {status.warning && <Badge variant="destructive">Expired</Badge>}
+        <Button
+          size="sm"
+          disabled={!canEditAttendance || checkInMutation.isPending}
+          onClick={() => handleCheckIn(member)}
+        >
+          <LogIn className="h-4 w-4 mr-2" />
+          Check In
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <AppLayout>
+      <div className="p-2 md:p-6 text-xs md:text-base">
+        <div className="flex items-center justify-between mb-2 md:mb-6">
+          <h1 className="text-lg md:text-2xl font-bold text-gray-900">
+            Check-in
+          </h1>
+          {canEditAttendance && (
+            <Link href="/kiosk">
+              <Button variant="outline" size="sm">
+                <ScanLine className="h-4 w-4 mr-2" />
+                Open QR Kiosk
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        <Card className="mb-4">
+          <CardHeader className="p-2 md:p-6">
+            <CardTitle className="text-base md:text-xl">Find Member</CardTitle>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0">
+            <div className="relative mb-4">
+              <Input
+                autoFocus
+                placeholder="Search by name, phone or member ID..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+              <div className="absolute left-3 top-1/2 -translate-y-1/2">
+                <Search className="h-4 w-4 text-gray-400" />
+              </div>
+            </div>
+
+            {isLoadingMembers ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : term && results.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No members found</p>
+            ) : (
+              <div className="space-y-2">
+                {results.map((member) => (
+                  <div
+                    key={member.id}
+                    className="flex items-center justify-between rounded-md border p-2 md:p-3"
+                  >
+                    <div>
+                      <p className="font-medium text-gray-900">{member.name}</p>
+                      <p className="text-xs md:text-sm text-gray-500">
+                        {member.phone} · ID{" "}
+                        {member.id.toString().padStart(4, "0")} · Expires{" "}
+                        {format(new Date(member.nextBillDate), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    {renderAction(member)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between p-2 md:p-6">
+            <CardTitle className="text-base md:text-xl">
+              Today's Visits
+            </CardTitle>
+            <span className="text-xs md:text-sm text-gray-500">
+              {visits.length} check-in{visits.length !== 1 ? "s" : ""}
+            </span>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0">
+            {isLoadingVisits ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : visits.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No check-ins yet today
+              </p>
+            ) : (
+              <div className="overflow-x-auto rounded-md border">
+                <Table className="text-xs md:text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Check-in</TableHead>
+                      <TableHead>Check-out</TableHead>
+                      <TableHead>Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visits.map((visit) => (
+                      <TableRow key={visit.id}>
+                        <TableCell>{visit.memberName}</TableCell>
+                        <TableCell>{format(visit.date, "h:mm a")}</TableCell>
+                        <TableCell>
+                          {visit.checkOutAt
+                            ? format(visit.checkOutAt, "h:mm a")
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {!visit.checkOutAt && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={
+                                !canEditAttendance || checkOutMutation.isPending
+                              }
+                              onClick={() => checkOutMutation.mutate(visit.id)}
+                            >
+                              Check Out
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog
+        open={!!pendingMember}
+        onOpenChange={(open) => !open && setPendingMember(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Check in {pendingMember?.member.name}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMember?.warning}. Ask the member to renew before their
+              next visit.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingMember) checkInMutation.mutate(pendingMember.member);
+                setPendingMember(null);
+              }}
+            >
+              Check In Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
@@ -1,21 +1,83 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { useLocation } from "wouter";
 import AppLayout from "@/components/layout/app-layout";
 import StatsCard from "@/components/dashboard/stats-card";
 import MembersTable from "@/components/dashboard/members-table";
 import ExpiringMembers from "@/components/dashboard/expiring-members";
+import BirthdaysThisWeek from "@/components/dashboard/birthdays-this-week";
+import RecountStatsButton from "@/components/dashboard/recount-stats-button";
+import DashboardSettingsDialog from "@/components/dashboard/dashboard-settings-dialog";
 import MemberDetailsModal from "@/components/member/member-details-modal";
+import RenewMemberDialog from "@/components/member/renew-member-dialog";
+import FreezeMemberDialog from "@/components/member/freeze-member-dialog";
 import { Member } from "@shared/schema";
-import { Loader2 } from "lucide-react";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { useDashboardStats } from "@/hooks/useDashboardStats";
 import { useExpiringMembers } from "@/hooks/useExpiringMembers";
+import { useUpcomingBirthdays } from "@/hooks/useUpcomingBirthdays";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useTodayAttendance } from "@/hooks/useTodayAttendance";
+import { useDashboardSettings } from "@/hooks/use-dashboard-settings";
+import {
+  DASHBOARD_WIDGETS,
+  DEFAULT_DASHBOARD_SETTINGS,
+  DashboardWidget,
+} from "@/lib/dashboard";
+import { MemberListFilter } from "@/lib/member-search";
 
 export default function DashboardPage() {
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [renewingMember, setRenewingMember] = useState<Member | null>(null);
+  const [freezingMember, setFreezingMember] = useState<Member | null>(null);
+  const { hasPermission, isAdmin } = usePermissions();
+  const canRenew =
+    hasPermission("canEditMembers") && hasPermission("canEditPayments");
+  const canViewAttendance = hasPermission("canViewAttendance");
+  const { data: todayVisits = [] } = useTodayAttendance(canViewAttendance);
 
-  const { data: stats, isLoading: isLoadingStats } = useDashboardStats();
+  const [, navigate] = useLocation();
+  const [tableFilter, setTableFilter] = useState<MemberListFilter | null>(
+    null
+  );
+  const [isCustomizing, setIsCustomizing] = useState(false);
+  const tableRef = useRef<HTMLDivElement>(null);
+
+  const { data: savedSettings, isLoading: isLoadingSettings } =
+    useDashboardSettings();
+  const settings = savedSettings ?? DEFAULT_DASHBOARD_SETTINGS;
+  const { expiringDays } = settings;
+  const { data: stats, isLoading: isLoadingStats } = useDashboardStats(
+    expiringDays,
+    !isLoadingSettings
+  );
   const { data: expiringMembers, isLoading: isLoadingExpiring } =
-    useExpiringMembers();
+    useExpiringMembers(expiringDays, !isLoadingSettings);
+  const { data: upcomingBirthdays = [] } = useUpcomingBirthdays();
+
+  const widgetValues: Record<DashboardWidget, number> = {
+    totalMembers: stats?.totalMembers || 0,
+    activeMembers: stats?.totalActiveMembers || 0,
+    monthlyJoined: stats?.monthlyJoined || 0,
+    expiring: stats?.expiringMembers || 0,
+    expired: stats?.expiredMembers || 0,
+    notPaid: stats?.notPaidMembers || 0,
+    todayFootfall: new Set(todayVisits.map((visit) => visit.memberId)).size,
+  };
+  const visibleWidgets = settings.widgets.filter(
+    (widget) => widget !== "todayFootfall" || canViewAttendance
+  );
+
+  // Show the members behind a card in the members list
+  const handleWidgetClick = (widget: DashboardWidget) => {
+    if (widget === "todayFootfall") {
+      navigate("/check-in");
+      return;
+    }
+    setTableFilter(DASHBOARD_WIDGETS[widget].filter);
+    tableRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
 
   const handleViewMember = (member: Member) => {
     console.log({ member });
@@ -23,60 +85,68 @@ export default function DashboardPage() {
     setIsModalOpen(true);
   };
 
+  const handleRenewMember = (member: Member) => {
+    setRenewingMember(member);
+  };
+
+  // Keep the details modal in step when the member it shows is renewed or
+  // frozen
+  const handleMemberUpdated = (member: Member) => {
+    if (selectedMember?.id === member.id) {
+      setSelectedMember(member);
+    }
+  };
+
   return (
     <AppLayout>
       <div className="p-2 md:p-6 text-sm md:text-base">
-        
+        {isAdmin && !isLoadingStats && (
+          <div className="flex justify-end gap-2 mb-2">
+            <RecountStatsButton reconciledAt={stats?.reconciledAt} />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsCustomizing(true)}
+            >
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Customize
+            </Button>
+          </div>
+        )}
 
         {/* Dashboard Stats */}
-        {isLoadingStats ? (
+        {isLoadingSettings || isLoadingStats ? (
           <div className="flex justify-center my-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mb-6">
-            <StatsCard
-              title="Total Members"
-              value={stats?.totalMembers || 0}
-              icon="users"
-              color="primary"
-            />
-            <StatsCard
-              title="Total Active Members"
-              value={stats?.totalActiveMembers || 0}
-              icon="users"
-              color="info"
-            />
-            <StatsCard
-              title="Monthly Joined"
-              value={stats?.monthlyJoined || 0}
-              icon="user-plus"
-              color="success"
-            />
-            <StatsCard
-              title="Expiring soon"
-              value={stats?.expiringThreeDays || 0}
-              icon="clock"
-              color="warning"
-            />
-            <StatsCard
-              title="Expired Members"
-              value={stats?.expiredMembers || 0}
-              icon="alert-triangle"
-              color="danger"
-            />
-            <StatsCard
-              title="Payment pending"
-              value={stats?.notPaidMembers || 0}
-              icon="credit-card"
-              color="warning"
-            />
+            {visibleWidgets.map((widget) => (
+              <StatsCard
+                key={widget}
+                title={
+                  widget === "expiring"
+                    ? `Expiring in ${expiringDays} days`
+                    : DASHBOARD_WIDGETS[widget].title
+                }
+                value={widgetValues[widget]}
+                icon={DASHBOARD_WIDGETS[widget].icon}
+                color={DASHBOARD_WIDGETS[widget].color}
+                onClick={() => handleWidgetClick(widget)}
+              />
+            ))}
           </div>
         )}
 
         {/* Members Table */}
-        <div className="mb-6">
-          <MembersTable onViewMember={handleViewMember} />
+        <div className="mb-6 scroll-mt-4" ref={tableRef}>
+          <MembersTable
+            onViewMember={handleViewMember}
+            onRenewMember={canRenew ? handleRenewMember : undefined}
+            filter={tableFilter}
+            onFilterChange={setTableFilter}
+            expiringDays={expiringDays}
+          />
         </div>
 
         {/* Expiring Soon Section */}
@@ -87,9 +157,21 @@ export default function DashboardPage() {
         ) : (
           <ExpiringMembers
             members={Array.isArray(expiringMembers) ? expiringMembers : []}
+            days={expiringDays}
             onViewMember={handleViewMember}
+            onRenewMember={canRenew ? handleRenewMember : undefined}
           />
         )}
+
+        {/* Birthdays This Week */}
+        {upcomingBirthdays.length > 0 && (
+          <div className="mt-6">
+            <BirthdaysThisWeek
+              birthdays={upcomingBirthdays}
+              onViewMember={handleViewMember}
+            />
+          </div>
+        )}
       </div>
 
       {/* Member Details Modal */}
@@ -97,6 +179,30 @@ export default function DashboardPage() {
         member={selectedMember}
         open={isModalOpen}
         onOpenChange={setIsModalOpen}
+        onRenew={handleRenewMember}
+        onFreeze={setFreezingMember}
+      />
+
+      {isAdmin && (
+        <DashboardSettingsDialog
+          settings={settings}
+          open={isCustomizing}
+          onOpenChange={setIsCustomizing}
+        />
+      )}
+
+      <RenewMemberDialog
+        member={renewingMember}
+        open={!!renewingMember}
+        onOpenChange={(open) => !open && setRenewingMember(null)}
+        onRenewed={handleMemberUpdated}
+      />
+
+      <FreezeMemberDialog
+        member={freezingMember}
+        open={!!freezingMember}
+        onOpenChange={(open) => !open && setFreezingMember(null)}
+        onUpdated={handleMemberUpdated}
       />
     </AppLayout>
   );
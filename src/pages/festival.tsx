@@ -1,14 +1,20 @@
 import { useState, useEffect, useRef } from "react";
 import Calendar from "react-calendar";
 import 'react-calendar/dist/Calendar.css';
-import { collection, addDoc, getDocs, query, where, Timestamp, doc, updateDoc, deleteDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { endOfDay, endOfMonth, isSameDay, startOfDay, startOfMonth } from "date-fns";
 import AppLayout from "@/components/layout/app-layout";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,23 +26,30 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import { Pencil, Trash2, Loader2 } from "lucide-react";
-import { FIRESTORE_COLLECTIONS } from "@/lib/firestore";
-
-type FestivalEvent = {
-  id: string;
-  date: Date;
-  title: string;
-  message: string;
-  createdAt: Date;
-};
+import { Pencil, Trash2, Loader2, Send, Plus, Upload, Repeat } from "lucide-react";
+import { addFestival, deleteFestival, getFestivals, updateFestival } from "@/lib/firestore";
+import {
+  FESTIVAL_RECURRENCES,
+  FestivalEvent,
+  FestivalOccurrence,
+  FestivalRecurrence,
+  getFestivalOccurrences,
+} from "@/lib/festivals";
+import { useMessageTemplates } from "@/hooks/use-message-templates";
+import { TEMPLATES, findUnknownPlaceholders } from "@/lib/templates";
+import { usePermissions } from "@/hooks/use-permissions";
+import BroadcastDialog from "@/components/festival/broadcast-dialog";
+import CampaignList from "@/components/festival/campaign-list";
+import FestivalAgenda from "@/components/festival/festival-agenda";
+import ImportIcsDialog from "@/components/festival/import-ics-dialog";
 
 export default function Festival() {
   const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
+  const [activeMonth, setActiveMonth] = useState<Date>(startOfMonth(new Date()));
   const [showForm, setShowForm] = useState(false);
   const [title, setTitle] = useState("");
   const [message, setMessage] = useState("");
-  const [currentEvent, setCurrentEvent] = useState<FestivalEvent | null>(null);
+  const [recurrence, setRecurrence] = useState<FestivalRecurrence>("none");
   const [allEvents, setAllEvents] = useState<FestivalEvent[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingAction, setLoadingAction] = useState<string | null>(null);
@@ -44,7 +57,18 @@ export default function Festival() {
   const [editingEventId, setEditingEventId] = useState<string | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [eventToDelete, setEventToDelete] = useState<{ id: string, title: string } | null>(null);
+  const [broadcastOccurrence, setBroadcastOccurrence] = useState<FestivalOccurrence | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
   const isEditingRef = useRef(false);
+  const { isAdmin } = usePermissions();
+  const { data: templates } = useMessageTemplates();
+  const festivalTemplate = templates?.festival ?? TEMPLATES.festival.defaultBody;
+
+  // Events on the selected day, including yearly events from earlier years
+  const eventsForDate = selectedDate
+    ? getFestivalOccurrences(allEvents, startOfDay(selectedDate), endOfDay(selectedDate))
+    : [];
+  const monthOccurrences = getFestivalOccurrences(allEvents, activeMonth, endOfMonth(activeMonth));
 
   useEffect(() => {
     isEditingRef.current = isEditing;
@@ -54,31 +78,23 @@ export default function Festival() {
     fetchAllEvents();
   }, []);
 
+  // Start a new event on empty days, unless an event is being edited
   useEffect(() => {
-    if (selectedDate) {
-      fetchEventForDate(selectedDate);
+    if (!selectedDate || isEditingRef.current || loading) return;
+    if (eventsForDate.length === 0) {
+      openCreateForm();
+    } else {
+      setShowForm(false);
     }
-  }, [selectedDate]);
+  }, [selectedDate, allEvents.length]);
 
   const fetchAllEvents = async () => {
     try {
       setLoading(true);
       toast.loading("Loading all events...");
-      
-      const querySnapshot = await getDocs(collection(db, FIRESTORE_COLLECTIONS.FESTIVALS));
-      const fetchedEvents: FestivalEvent[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        fetchedEvents.push({
-          id: doc.id,
-          date: data.date.toDate(),
-          title: data.title,
-          message: data.message,
-          createdAt: data.createdAt.toDate(),
-        });
-      });
-      
+
+      const fetchedEvents = await getFestivals();
+
       setAllEvents(fetchedEvents);
       toast.dismiss();
       toast.success(`Loaded ${fetchedEvents.length} events`);
@@ -91,61 +107,13 @@ export default function Festival() {
     }
   };
 
-  const fetchEventForDate = async (date: Date) => {
-    try {
-      setLoading(true);
-      toast.loading(`Loading event for ${formatDate(date)}...`);
-      
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
-      
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
-      
-      const q = query(
-        collection(db, FIRESTORE_COLLECTIONS.FESTIVALS),
-        where("date", ">=", Timestamp.fromDate(startOfDay)),
-        where("date", "<=", Timestamp.fromDate(endOfDay))
-      );
-      
-      const querySnapshot = await getDocs(q);
-      let fetchedEvent: FestivalEvent | null = null;
-      
-      if (!querySnapshot.empty) {
-        const doc = querySnapshot.docs[0]; // Get only the first event
-        const data = doc.data();
-        fetchedEvent = {
-          id: doc.id,
-          date: data.date.toDate(),
-          title: data.title,
-          message: data.message,
-          createdAt: data.createdAt.toDate(),
-        };
-      }
-      
-      setCurrentEvent(fetchedEvent);
-      toast.dismiss();
-      
-      if (fetchedEvent && !isEditingRef.current) {
-        setIsEditing(false);
-        setShowForm(false);
-        toast.success(`Found event for ${formatDate(date)}`);
-      } else if (!fetchedEvent) {
-        setTitle("");
-        setMessage("");
-        setIsEditing(false);
-        setEditingEventId(null);
-        setShowForm(true);
-        toast.info(`No event found for ${formatDate(date)}. Create a new one!`);
-      }
-      
-    } catch (error) {
-      console.error("Error fetching event for date:", error);
-      toast.dismiss();
-      toast.error("Failed to fetch event for the selected date. Please try again.");
-    } finally {
-      setLoading(false);
-    }
+  const openCreateForm = () => {
+    setTitle("");
+    setMessage(festivalTemplate);
+    setRecurrence("none");
+    setIsEditing(false);
+    setEditingEventId(null);
+    setShowForm(true);
   };
 
   const handleDateChange = (value: any) => {
@@ -153,86 +121,64 @@ export default function Festival() {
     setSelectedDate(selectedDate);
   };
 
+  const handleSelectAgendaDate = (date: Date) => {
+    setIsEditing(false);
+    setEditingEventId(null);
+    setSelectedDate(date);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     if (!selectedDate) {
       toast.error("Please select a date");
       return;
     }
-    
+
     if (!title.trim()) {
       toast.error("Title is required");
       return;
     }
-    
+
+    const unknownPlaceholders = findUnknownPlaceholders(message, "festival");
+    if (unknownPlaceholders.length > 0) {
+      toast.error(`Unknown placeholder: ${unknownPlaceholders.map((name) => `{{${name}}}`).join(", ")}`);
+      return;
+    }
+
     try {
       setLoading(true);
-      
-      const eventData = {
-        date: Timestamp.fromDate(selectedDate),
-        title,
-        message,
-        createdAt: Timestamp.fromDate(new Date()),
-      };
-      
+
       if (isEditing && editingEventId) {
         setLoadingAction('updating');
         toast.loading(`Updating event "${title}"...`);
-        
-        const eventRef = doc(db, FIRESTORE_COLLECTIONS.FESTIVALS, editingEventId);
-        await updateDoc(eventRef, {
-          title,
-          message,
-          updatedAt: Timestamp.fromDate(new Date())
-        });
-        
+
+        await updateFestival(editingEventId, { title, message, recurrence });
+
         toast.dismiss();
         toast.success(`Event "${title}" updated successfully`);
-        
+
         setShowForm(false);
         setIsEditing(false);
         setEditingEventId(null);
       } else {
-        // Check if an event already exists for this date
-        const startOfDay = new Date(selectedDate);
-        startOfDay.setHours(0, 0, 0, 0);
-        
-        const endOfDay = new Date(selectedDate);
-        endOfDay.setHours(23, 59, 59, 999);
-        
-        const q = query(
-          collection(db, FIRESTORE_COLLECTIONS.FESTIVALS),
-          where("date", ">=", Timestamp.fromDate(startOfDay)),
-          where("date", "<=", Timestamp.fromDate(endOfDay))
-        );
-        
-        const existingEvents = await getDocs(q);
-        
-        if (!existingEvents.empty) {
-          toast.error("An event already exists for this date. Please choose another date.");
-          return;
-        }
-        
         setLoadingAction('creating');
         toast.loading(`Creating new event "${title}"...`);
-        
-        await addDoc(collection(db, FIRESTORE_COLLECTIONS.FESTIVALS), eventData);
-        
+
+        await addFestival({ date: selectedDate, title, message, recurrence });
+
         toast.dismiss();
         toast.success(`New event "${title}" created successfully`);
-        
-        setTitle("");
-        setMessage("");
+
+        setShowForm(false);
       }
-      
-      fetchEventForDate(selectedDate);
+
       fetchAllEvents();
     } catch (error) {
       console.error("Error saving event:", error);
       toast.dismiss();
-      toast.error(isEditing 
-        ? "Failed to update event. Please try again." 
+      toast.error(isEditing
+        ? "Failed to update event. Please try again."
         : "Failed to create event. Please try again."
       );
     } finally {
@@ -243,14 +189,20 @@ export default function Festival() {
 
   const handleEdit = (event: FestivalEvent) => {
     toast.info(`Editing event "${event.title}"`);
-    
+
     setIsEditing(true);
     setEditingEventId(event.id);
-    
-    setSelectedDate(event.date);
+
     setTitle(event.title);
     setMessage(event.message);
-    setShowForm(true); 
+    setRecurrence(event.recurrence);
+    setShowForm(true);
+  };
+
+  const handleCancelForm = () => {
+    setShowForm(false);
+    setIsEditing(false);
+    setEditingEventId(null);
   };
 
   const handleDeleteClick = (eventId: string, eventTitle: string) => {
@@ -260,26 +212,21 @@ export default function Festival() {
 
   const handleConfirmDelete = async () => {
     if (!eventToDelete) return;
-    
+
     try {
       setLoading(true);
       setLoadingAction('deleting');
-      
+
       toast.loading(`Deleting event "${eventToDelete.title}"...`);
-      await deleteDoc(doc(db, FIRESTORE_COLLECTIONS.FESTIVALS, eventToDelete.id));
-      
+      await deleteFestival(eventToDelete.id);
+
       toast.dismiss();
       toast.success(`Event "${eventToDelete.title}" deleted successfully`);
-      
-      fetchEventForDate(selectedDate as Date);
+
       fetchAllEvents();
-      
+
       if (editingEventId === eventToDelete.id) {
-        setTitle("");
-        setMessage("");
-        setIsEditing(false);
-        setEditingEventId(null);
-        setShowForm(false);
+        handleCancelForm();
       }
     } catch (error) {
       console.error("Error deleting event:", error);
@@ -295,23 +242,16 @@ export default function Festival() {
 
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', {
-      year: 'numeric', 
-      month: 'short', 
+      year: 'numeric',
+      month: 'short',
       day: 'numeric'
     });
   };
-  
+
   const tileClassName = ({ date, view }: { date: Date; view: string }) => {
     if (view === 'month') {
-      const hasEvent = allEvents.some(event => {
-        const eventDate = new Date(event.date);
-        return (
-          eventDate.getDate() === date.getDate() &&
-          eventDate.getMonth() === date.getMonth() &&
-          eventDate.getFullYear() === date.getFullYear()
-        );
-      });
-      
+      const hasEvent = monthOccurrences.some((occurrence) => isSameDay(occurrence.date, date));
+
       return hasEvent ? 'has-event' : null;
     }
   };
@@ -319,14 +259,22 @@ export default function Festival() {
   return (
     <AppLayout>
       <div className="container mx-auto px-4 py-6">
-        <h1 className="text-lg md:text-2xl font-bold mb-2 md:mb-6">Festival Events Calendar</h1>
-        
+        <div className="flex items-center justify-between mb-2 md:mb-6">
+          <h1 className="text-lg md:text-2xl font-bold">Festival Events Calendar</h1>
+          {isAdmin && (
+            <Button variant="outline" onClick={() => setImportOpen(true)} className="text-xs md:text-base">
+              <Upload className="h-4 w-4 mr-2" />
+              Import Holidays
+            </Button>
+          )}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-6">
           <div>
             <Card>
               <CardHeader>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-4">
                 <style dangerouslySetInnerHTML={{ __html: `
                   .has-event {
                     position: relative;
@@ -351,9 +299,18 @@ export default function Festival() {
                 <Calendar
                   onChange={handleDateChange}
                   value={selectedDate}
+                  onActiveStartDateChange={({ activeStartDate }) =>
+                    activeStartDate && setActiveMonth(startOfMonth(activeStartDate))
+                  }
                   className={`rounded border p-2 w-full ${loading ? 'opacity-50 pointer-events-none' : ''}`}
                   tileClassName={tileClassName}
                 />
+                <FestivalAgenda
+                  month={activeMonth}
+                  occurrences={monthOccurrences}
+                  selectedDate={selectedDate}
+                  onSelectDate={handleSelectAgendaDate}
+                />
               </CardContent>
             </Card>
           </div>
@@ -366,7 +323,7 @@ export default function Festival() {
                     {isEditing ? "Edit Festival Event" : "Add New Festival Event"}
                   </CardTitle>
                   <CardDescription className="text-xs md:text-sm">
-                    {isEditing 
+                    {isEditing
                       ? `Editing event for ${selectedDate && formatDate(selectedDate)}`
                       : `Creating event for ${selectedDate && formatDate(selectedDate)}`}
                   </CardDescription>
@@ -387,7 +344,32 @@ export default function Festival() {
                         className="text-xs md:text-base"
                       />
                     </div>
-                    
+
+                    <div>
+                      <label className="block text-xs md:text-sm font-medium mb-1">
+                        Repeat
+                      </label>
+                      <Select
+                        value={recurrence}
+                        onValueChange={(value) => setRecurrence(value as FestivalRecurrence)}
+                        disabled={loading}
+                      >
+                        <SelectTrigger className="text-xs md:text-base">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(FESTIVAL_RECURRENCES).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Lunar-calendar holidays change date every year, so add them once per year.
+                      </p>
+                    </div>
+
                     <div>
                       <label htmlFor="message" className="block text-xs md:text-sm font-medium mb-1">
                         Message
@@ -401,101 +383,157 @@ export default function Festival() {
                         disabled={loading}
                         className="text-xs md:text-base"
                       />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Placeholders: {TEMPLATES.festival.placeholders.map((name) => `{{${name}}}`).join(" ")}
+                      </p>
                     </div>
-                    
-                    <Button type="submit" disabled={loading} className="text-xs md:text-base px-2 md:px-4 py-1 md:py-2">
-                      {loadingAction === 'updating' ? (
-                        <>
-                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                          Updating...
-                        </>
-                      ) : loadingAction === 'creating' ? (
-                        <>
-                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                          Creating...
-                        </>
-                      ) : isEditing ? (
-                        "Update Event"
-                      ) : (
-                        "Save Event"
+
+                    <div className="flex gap-2">
+                      <Button type="submit" disabled={loading} className="text-xs md:text-base px-2 md:px-4 py-1 md:py-2">
+                        {loadingAction === 'updating' ? (
+                          <>
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Updating...
+                          </>
+                        ) : loadingAction === 'creating' ? (
+                          <>
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Creating...
+                          </>
+                        ) : isEditing ? (
+                          "Update Event"
+                        ) : (
+                          "Save Event"
+                        )}
+                      </Button>
+                      {(isEditing || eventsForDate.length > 0) && (
+                        <Button type="button" variant="outline" onClick={handleCancelForm} disabled={loading} className="text-xs md:text-base px-2 md:px-4 py-1 md:py-2">
+                          Cancel
+                        </Button>
                       )}
-                    </Button>
+                    </div>
                   </form>
                 </CardContent>
               </Card>
             )}
           </div>
         </div>
-        
+
         <div className="mt-8">
-          {loading && !currentEvent ? (
+          {loading && eventsForDate.length === 0 ? (
             <div className="text-center py-4 md:py-8">
               <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-primary" />
-              <p className="text-xs md:text-base">Loading event...</p>
+              <p className="text-xs md:text-base">Loading events...</p>
             </div>
           ) : (
             <>
-              <h2 className="text-base md:text-xl font-semibold mb-4">
-                {!currentEvent
-                  ? "No event found for selected date"
-                  : `Event for ${selectedDate ? formatDate(selectedDate!) : "selected date"}`}
-              </h2>
-              
-              {currentEvent && (
-                <Card className="hover:shadow-lg transition-shadow">
-                  <CardHeader>
-                    <div className="flex items-start justify-between">
-                      <CardTitle className="text-lg md:text-xl">{currentEvent.title}</CardTitle>
-                      <div className="flex space-x-2">
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          onClick={() => handleEdit(currentEvent)}
-                          className="h-8 px-2"
-                          disabled={loading}
-                        >
-                          {loadingAction === 'updating' && editingEventId === currentEvent.id ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <>
-                              <Pencil className="h-4 w-4 mr-1" />
-                              Edit
-                            </>
-                          )}
-                        </Button>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => handleDeleteClick(currentEvent.id, currentEvent.title)}
-                          className="h-8 px-2"
-                          disabled={loading}
-                        >
-                          {loadingAction === 'deleting' ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-base md:text-xl font-semibold">
+                  {eventsForDate.length === 0
+                    ? "No events found for selected date"
+                    : `Events for ${selectedDate ? formatDate(selectedDate!) : "selected date"}`}
+                </h2>
+                {eventsForDate.length > 0 && !showForm && (
+                  <Button variant="outline" size="sm" onClick={openCreateForm} disabled={loading}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Event
+                  </Button>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                {eventsForDate.map((occurrence) => {
+                  const { event } = occurrence;
+                  return (
+                    <Card key={event.id} className="hover:shadow-lg transition-shadow">
+                      <CardHeader>
+                        <div className="flex items-start justify-between">
+                          <CardTitle className="text-lg md:text-xl">{event.title}</CardTitle>
+                          <div className="flex space-x-2">
+                            {isAdmin && (
+                              <Button
+                                size="sm"
+                                onClick={() => setBroadcastOccurrence(occurrence)}
+                                className="h-8 px-2"
+                                disabled={loading}
+                              >
+                                <Send className="h-4 w-4 mr-1" />
+                                Broadcast
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEdit(event)}
+                              className="h-8 px-2"
+                              disabled={loading}
+                            >
+                              {loadingAction === 'updating' && editingEventId === event.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <>
+                                  <Pencil className="h-4 w-4 mr-1" />
+                                  Edit
+                                </>
+                              )}
+                            </Button>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleDeleteClick(event.id, event.title)}
+                              className="h-8 px-2"
+                              disabled={loading}
+                            >
+                              {loadingAction === 'deleting' && eventToDelete?.id === event.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <>
+                                  <Trash2 className="h-4 w-4 mr-1" />
+                                  Delete
+                                </>
+                              )}
+                            </Button>
+                          </div>
+                        </div>
+                        <CardDescription className="text-sm flex items-center gap-1">
+                          {formatDate(occurrence.date)}
+                          {event.recurrence === "yearly" && (
                             <>
-                              <Trash2 className="h-4 w-4 mr-1" />
-                              Delete
+                              <Repeat className="h-3 w-3 ml-2" />
+                              {FESTIVAL_RECURRENCES.yearly}
                             </>
                           )}
-                        </Button>
-                      </div>
-                    </div>
-                    <CardDescription className="text-sm">
-                      {formatDate(currentEvent.date)}
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <p className="text-base text-gray-600 whitespace-pre-wrap">
-                      {currentEvent.message}
-                    </p>
-                  </CardContent>
-                </Card>
-              )}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <p className="text-base text-gray-600 whitespace-pre-wrap">
+                          {event.message}
+                        </p>
+                        <div className="mt-4">
+                          <CampaignList festivalId={event.id} />
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
             </>
           )}
         </div>
 
+        <BroadcastDialog
+          festival={broadcastOccurrence && { ...broadcastOccurrence.event, date: broadcastOccurrence.date }}
+          open={!!broadcastOccurrence}
+          onOpenChange={(open) => !open && setBroadcastOccurrence(null)}
+        />
+
+        <ImportIcsDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          existingEvents={allEvents}
+          onImported={fetchAllEvents}
+        />
+
         <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
           <AlertDialogContent>
             <AlertDialogHeader>
@@ -527,4 +565,4 @@ export default function Festival() {
       </div>
     </AppLayout>
   );
-} 
\ No newline at end of file
+}
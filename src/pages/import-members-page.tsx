@@ -0,0 +1,403 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { utils, writeFile } from "xlsx";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import {
+  MemberImportResult,
+  getMembers,
+  getMembershipPlans,
+  importMembers,
+  undoMemberImport,
+} from "@/lib/firestore";
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  Spreadsheet,
+  guessColumnMapping,
+  readSpreadsheet,
+  validateImportRows,
+} from "@/lib/member-import";
+import { Member } from "@shared/schema";
+import AppLayout from "@/components/layout/app-layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, Loader2, Undo2, Upload } from "lucide-react";
+
+const NOT_MAPPED = "__none__";
+
+export default function ImportMembersPage() {
+  const { user } = useAuth();
+  const { isAdmin } = usePermissions();
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [spreadsheet, setSpreadsheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<MemberImportResult | null>(null);
+
+  const { data: membershipPlans = [] } = useQuery({
+    queryKey: ["membershipPlans"],
+    queryFn: () => getMembershipPlans(),
+  });
+  const { data: members = [] } = useQuery({
+    queryKey: ["members", "all"],
+    queryFn: async () => (await getMembers()) as unknown as Member[],
+  });
+
+  const rows =
+    spreadsheet && mapping
+      ? validateImportRows(
+          spreadsheet,
+          mapping,
+          membershipPlans,
+          members.map((member) => member.phone)
+        )
+      : [];
+  const validRows = rows.filter((row) => row.member);
+  const invalidCount = rows.length - validRows.length;
+  const missingFields = mapping
+    ? (Object.keys(IMPORT_FIELDS) as ImportField[]).filter(
+        (field) => IMPORT_FIELDS[field].required && !mapping[field]
+      )
+    : [];
+  const visibleRows = showErrorsOnly
+    ? rows.filter((row) => row.errors.length > 0)
+    : rows;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const sheet = await readSpreadsheet(file);
+      setFileName(file.name);
+      setSpreadsheet(sheet);
+      setMapping(guessColumnMapping(sheet.headers));
+      setResult(null);
+    } catch (error) {
+      toast({
+        title: "Could not read the file",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: () => {
+      setProgress(0);
+      return importMembers(
+        validRows.map((row) => ({
+          rowNumber: row.rowNumber,
+          member: row.member!,
+          payment: row.payment,
+        })),
+        { id: user?.id ?? "", name: user?.username ?? "" },
+        setProgress
+      );
+    },
+    onSuccess: (importResult) => {
+      setResult(importResult);
+      toast({
+        title: "Import finished",
+        description: `${importResult.imported.length} imported, ${importResult.failed.length} rolled back.`,
+        variant: importResult.failed.length > 0 ? "destructive" : "default",
+      });
+      queryClient.invalidateQueries({ queryKey: ["members"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["revenue"] });
+      queryClient.invalidateQueries({ queryKey: ["expiring-members"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: () => undoMemberImport(result?.imported ?? []),
+    onSuccess: () => {
+      toast({
+        title: "Import undone",
+        description: "The imported members have been removed.",
+      });
+      setResult(null);
+      queryClient.invalidateQueries({ queryKey: ["members"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["revenue"] });
+      queryClient.invalidateQueries({ queryKey: ["expiring-members"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to undo import",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // One line per spreadsheet row: imported, rolled back or skipped, and why
+  const downloadReport = () => {
+    const imported = new Map(
+      result?.imported.map((row) => [row.rowNumber, row.memberId])
+    );
+    const failed = new Map(
+      result?.failed.map((row) => [row.rowNumber, row.error])
+    );
+    const report = rows.map((row) => ({
+      Row: row.rowNumber,
+      Name: row.name,
+      Phone: row.phone,
+      Status: imported.has(row.rowNumber)
+        ? "Imported"
+        : failed.has(row.rowNumber)
+          ? "Rolled back"
+          : "Skipped",
+      "Member ID": imported.get(row.rowNumber) ?? "",
+      Details: failed.get(row.rowNumber) ?? row.errors.join("; "),
+    }));
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, utils.json_to_sheet(report), "Report");
+    writeFile(workbook, `import-report-${fileName.replace(/\.\w+$/, "")}.csv`);
+  };
+
+  return (
+    <AppLayout>
+      <div className="p-2 md:p-6 text-xs md:text-base space-y-4 md:space-y-6">
+        <h1 className="text-lg md:text-2xl font-bold text-gray-900">
+          Import Members
+        </h1>
+
+        <Card>
+          <CardHeader className="p-2 md:p-6">
+            <CardTitle className="text-base md:text-xl">
+              1. Choose a File
+            </CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              CSV or Excel (.xlsx) with one member per row and a header row.
+              Dates are read day first, e.g. 25/12/1995.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0">
+            <Input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFileChange}
+              className="max-w-md"
+            />
+            {spreadsheet && (
+              <p className="mt-2 text-sm text-muted-foreground">
+                {fileName}: {spreadsheet.rows.length} rows
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {spreadsheet && mapping && (
+          <Card>
+            <CardHeader className="p-2 md:p-6">
+              <CardTitle className="text-base md:text-xl">
+                2. Match Columns
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-2 md:p-6 pt-0">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label>
+                      {IMPORT_FIELDS[field].label}
+                      {IMPORT_FIELDS[field].required && " *"}
+                    </Label>
+                    <Select
+                      value={mapping[field] ?? NOT_MAPPED}
+                      onValueChange={(value) =>
+                        setMapping({
+                          ...mapping,
+                          [field]: value === NOT_MAPPED ? null : value,
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                        {spreadsheet.headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {missingFields.length > 0 && (
+                <p className="mt-4 text-sm font-medium text-destructive">
+                  Match a column for:{" "}
+                  {missingFields
+                    .map((field) => IMPORT_FIELDS[field].label)
+                    .join(", ")}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {spreadsheet && mapping && missingFields.length === 0 && (
+          <Card>
+            <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-2 md:p-6">
+              <div>
+                <CardTitle className="text-base md:text-xl">
+                  3. Review and Import
+                </CardTitle>
+                <CardDescription className="text-xs md:text-sm">
+                  {validRows.length} ready to import · {invalidCount} with
+                  errors will be skipped
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="errors-only"
+                    checked={showErrorsOnly}
+                    onCheckedChange={setShowErrorsOnly}
+                  />
+                  <Label htmlFor="errors-only">Errors only</Label>
+                </div>
+                <Button
+                  disabled={
+                    importMutation.isPending ||
+                    validRows.length === 0 ||
+                    !!result
+                  }
+                  onClick={() => importMutation.mutate()}
+                >
+                  {importMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Upload className="mr-2 h-4 w-4" />
+                  )}
+                  Import {validRows.length} Members
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-2 md:p-6 pt-0 space-y-4">
+              {importMutation.isPending && (
+                <Progress value={(progress / validRows.length) * 100} />
+              )}
+
+              {result && (
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-md border p-3">
+                  <p className="text-sm">
+                    <span className="font-medium">
+                      {result.imported.length} imported
+                    </span>
+                    {result.failed.length > 0 &&
+                      ` · ${result.failed.length} rolled back because their batch failed`}
+                    {invalidCount > 0 && ` · ${invalidCount} skipped`}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={downloadReport}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Download Report
+                    </Button>
+                    {isAdmin && result.imported.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={undoMutation.isPending}
+                        onClick={() => undoMutation.mutate()}
+                      >
+                        {undoMutation.isPending ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Undo2 className="mr-2 h-4 w-4" />
+                        )}
+                        Undo Import
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="overflow-x-auto rounded-md border max-h-[32rem]">
+                <Table className="text-xs md:text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead>Next Bill</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>{row.name}</TableCell>
+                        <TableCell>{row.phone}</TableCell>
+                        <TableCell>{row.member?.joiningDate ?? "-"}</TableCell>
+                        <TableCell>{row.member?.nextBillDate ?? "-"}</TableCell>
+                        <TableCell>
+                          {row.errors.length === 0 ? (
+                            <Badge variant="secondary">Ready</Badge>
+                          ) : (
+                            <ul className="text-destructive space-y-1">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useMemberCardKey } from "@/hooks/use-member-qr";
+import { queryClient } from "@/lib/queryClient";
+import {
+  FIRESTORE_COLLECTIONS,
+  checkInMember,
+  checkOutMember,
+  getActiveGymId,
+  getAttendanceForDay,
+  getGymDoc,
+} from "@/lib/firestore";
+import { getCheckInStatus } from "@/lib/attendance";
+import { verifyMemberToken } from "@/lib/member-token";
+import { Member } from "@shared/schema";
+import QrScanner from "@/components/attendance/qr-scanner";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { CheckCircle2, Loader2, LogOut, XCircle } from "lucide-react";
+
+// How long a result stays on screen, and how long the same card is ignored
+// so holding it in front of the camera does not check in and out repeatedly
+const RESULT_MS = 4000;
+const REPEAT_SCAN_MS = 10000;
+
+interface ScanResult {
+  ok: boolean;
+  title: string;
+  detail: string;
+}
+
+export default function KioskPage() {
+  const { user, logoutMutation } = useAuth();
+  const { data: cardKey, isLoading, error } = useMemberCardKey();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const lastScan = useRef<{ text: string; at: number } | null>(null);
+
+  useEffect(() => {
+    if (!result) return;
+    const timeout = setTimeout(() => setResult(null), RESULT_MS);
+    return () => clearTimeout(timeout);
+  }, [result]);
+
+  const processScan = async (text: string): Promise<ScanResult> => {
+    const memberId = await verifyMemberToken(text, getActiveGymId(), cardKey!);
+    if (!memberId) {
+      return {
+        ok: false,
+        title: "Card not recognised",
+        detail: "Please see the front desk.",
+      };
+    }
+
+    const member = (await getGymDoc(
+      FIRESTORE_COLLECTIONS.MEMBERS,
+      memberId
+    )) as Member | null;
+    if (!member) {
+      return {
+        ok: false,
+        title: "Member not found",
+        detail: "Please see the front desk.",
+      };
+    }
+
+    // Expired members are let in only by staff, so the kiosk turns them away
+    const status = getCheckInStatus(member);
+    if (!status.allowed || status.warning) {
+      return {
+        ok: false,
+        title: `Sorry, ${member.name}`,
+        detail: `${
+          status.allowed ? status.warning : status.reason
+        }. Please see the front desk.`,
+      };
+    }
+
+    const visits = await getAttendanceForDay();
+    const openVisit = visits.find(
+      (visit) => visit.memberId === memberId && !visit.checkOutAt
+    );
+    if (openVisit) {
+      await checkOutMember(openVisit.id);
+      return {
+        ok: true,
+        title: `Goodbye, ${member.name}!`,
+        detail: `Checked out at ${format(new Date(), "h:mm a")}`,
+      };
+    }
+
+    await checkInMember(
+      { id: memberId, name: member.name },
+      { id: user?.id ?? "", name: "Kiosk" }
+    );
+    return {
+      ok: true,
+      title: `Welcome, ${member.name}!`,
+      detail: `Checked in at ${format(new Date(), "h:mm a")}`,
+    };
+  };
+
+  const handleScan = async (text: string) => {
+    const now = Date.now();
+    if (
+      isProcessing ||
+      (lastScan.current?.text === text &&
+        now - lastScan.current.at < REPEAT_SCAN_MS)
+    ) {
+      return;
+    }
+    lastScan.current = { text, at: now };
+
+    setIsProcessing(true);
+    try {
+      setResult(await processScan(text));
+      queryClient.invalidateQueries({ queryKey: ["attendance"] });
+    } catch (err) {
+      console.error("Error processing scan:", err);
+      setResult({
+        ok: false,
+        title: "Something went wrong",
+        detail: "Please try again or see the front desk.",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <header className="flex items-center justify-between p-4">
+        {/* Members use this screen unattended, so leaving it signs the staff
+            account out rather than opening the app */}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-white"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign Out
+        </Button>
+        <span className="text-sm text-gray-400">
+          {format(new Date(), "EEEE, MMM d")}
+        </span>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center gap-6 p-4">
+        <h1 className="text-2xl md:text-4xl font-bold text-center">
+          Scan your member card to check in
+        </h1>
+
+        {isLoading ? (
+          <Loader2 className="h-10 w-10 animate-spin" />
+        ) : error ? (
+          <p className="text-red-400 text-center">
+            QR check-in is not set up yet. Ask the gym owner to open any
+            member's details once.
+          </p>
+        ) : (
+          <div className="w-full max-w-xl">
+            <QrScanner onScan={handleScan} paused={isProcessing || !!result} />
+          </div>
+        )}
+
+        <div
+          className={cn(
+            "w-full max-w-xl rounded-lg p-6 text-center transition-opacity",
+            result ? "opacity-100" : "opacity-0",
+            result?.ok ? "bg-green-600" : "bg-red-600"
+          )}
+        >
+          <div className="flex items-center justify-center gap-3 mb-1">
+            {result?.ok ? (
+              <CheckCircle2 className="h-8 w-8" />
+            ) : (
+              <XCircle className="h-8 w-8" />
+            )}
+            <p className="text-xl md:text-2xl font-semibold">{result?.title}</p>
+          </div>
+          <p className="text-sm md:text-base">{result?.detail}</p>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import {
   getMembershipPlans,
   addMembershipPlan,
@@ -49,6 +50,7 @@ interface MembershipPlan {
   durationMonths: number;
   price: number;
   description?: string;
+  maxFreezeDays?: number | null;
   gymId: string;
   isActive?: boolean;
 }
@@ -56,6 +58,8 @@ interface MembershipPlan {
 export default function MembershipPage() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const canEditPlans = hasPermission("canEditMembers");
   const [plans, setPlans] = useState<MembershipPlan[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [showForm, setShowForm] = useState(false);
@@ -101,7 +105,7 @@ export default function MembershipPage() {
       if (editingPlan) {
         await updateMembershipPlan(editingPlan.id, {
           ...data,
-          gymId: user.id,
+          gymId: user.gymId,
         });
         toast({
           title: "Plan updated",
@@ -110,7 +114,7 @@ export default function MembershipPage() {
       } else {
         await addMembershipPlan({
           ...data,
-          gymId: user.id,
+          gymId: user.gymId,
           isActive: data.isActive !== undefined ? data.isActive : true,
         });
         toast({
@@ -179,6 +183,7 @@ export default function MembershipPage() {
                 setEditingPlan(null);
                 setShowForm(true);
               }}
+              disabled={!canEditPlans}
               className="text-xs md:text-base px-2 md:px-4 py-1 md:py-2"
             >
               <Plus className="w-4 h-4 mr-2" />
@@ -201,6 +206,7 @@ export default function MembershipPage() {
                     <TableHead>Name</TableHead>
                     <TableHead>Duration</TableHead>
                     <TableHead>Price</TableHead>
+                    <TableHead>Freeze Days</TableHead>
                     <TableHead>Description</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
@@ -212,6 +218,7 @@ export default function MembershipPage() {
                       <TableCell>{plan.name}</TableCell>
                       <TableCell>{plan.durationMonths} month(s)</TableCell>
                       <TableCell>₹{Math.round(plan.price)}</TableCell>
+                      <TableCell>{plan.maxFreezeDays ?? "No limit"}</TableCell>
                       <TableCell>{plan.description || "-"}</TableCell>
                       <TableCell>
                         <div className="flex items-center">
@@ -233,6 +240,7 @@ export default function MembershipPage() {
                                     : "secondary"
                                 }
                                 size="sm"
+                                disabled={!canEditPlans}
                               >
                                 {plan.isActive !== false
                                   ? "Active"
@@ -280,6 +288,7 @@ export default function MembershipPage() {
                             setEditingPlan(plan);
                             setShowForm(true);
                           }}
+                          disabled={!canEditPlans}
                         >
                           <Pencil className="w-4 h-4" />
                         </Button>
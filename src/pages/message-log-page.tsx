@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { getMessages, resendMessage } from "@/lib/firestore";
+import {
+  MESSAGE_STATUSES,
+  MESSAGE_TYPES,
+  Message,
+  MessageStatus,
+  MessageType,
+} from "@/lib/messages";
+import AppLayout from "@/components/layout/app-layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RotateCw, Search } from "lucide-react";
+
+const ALL = "all";
+
+const statusVariant: Record<
+  MessageStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  queued: "outline",
+  sent: "secondary",
+  failed: "destructive",
+  paused: "outline",
+  cancelled: "outline",
+};
+
+const describeDelivery = (message: Message) => {
+  if (message.status === "sent" && message.sentAt) {
+    return `Sent ${format(message.sentAt, "MMM d, h:mm a")}`;
+  }
+  if (message.status === "queued" && message.nextAttemptAt) {
+    const nextTry = `Next try ${format(message.nextAttemptAt, "h:mm a")}`;
+    return message.lastError ? `${nextTry} · ${message.lastError}` : nextTry;
+  }
+  return message.lastError || "-";
+};
+
+export default function MessageLogPage() {
+  const { toast } = useToast();
+  const [memberSearch, setMemberSearch] = useState("");
+  const [type, setType] = useState<MessageType | typeof ALL>(ALL);
+  const [status, setStatus] = useState<MessageStatus | typeof ALL>(ALL);
+
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ["messages"],
+    queryFn: () => getMessages(),
+  });
+
+  const term = memberSearch.trim().toLowerCase();
+  const filteredMessages = messages.filter(
+    (message) =>
+      (type === ALL || message.type === type) &&
+      (status === ALL || message.status === status) &&
+      (!term ||
+        message.memberName?.toLowerCase().includes(term) ||
+        message.phone?.includes(term))
+  );
+
+  const resendMutation = useMutation({
+    mutationFn: resendMessage,
+    onSuccess: () => {
+      toast({
+        title: "Message queued",
+        description: "The message will be sent again shortly.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["messages"] });
+      queryClient.invalidateQueries({ queryKey: ["message-queue"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to resend message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AppLayout>
+      <div className="p-2 md:p-6 text-xs md:text-base">
+        <h1 className="text-lg md:text-2xl font-bold text-gray-900 mb-2 md:mb-6">
+          Message Log
+        </h1>
+        <Card>
+          <CardHeader className="p-2 md:p-6">
+            <CardTitle className="text-base md:text-xl">
+              Outgoing WhatsApp Messages
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0">
+            <div className="flex flex-col md:flex-row gap-2 md:gap-4 mb-4">
+              <div className="relative flex-1">
+                <Input
+                  placeholder="Search by member name or phone..."
+                  value={memberSearch}
+                  onChange={(e) => setMemberSearch(e.target.value)}
+                  className="pl-10"
+                />
+                <div className="absolute left-3 top-1/2 -translate-y-1/2">
+                  <Search className="h-4 w-4 text-gray-400" />
+                </div>
+              </div>
+              <Select
+                value={type}
+                onValueChange={(value) => setType(value as MessageType)}
+              >
+                <SelectTrigger className="md:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {Object.entries(MESSAGE_TYPES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={status}
+                onValueChange={(value) => setStatus(value as MessageStatus)}
+              >
+                <SelectTrigger className="md:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {Object.entries(MESSAGE_STATUSES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="overflow-x-auto rounded-md border">
+              <Table className="text-xs md:text-sm">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-10">
+                        <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : filteredMessages.length === 0 ? (
+                    <TableRow>
+                      <TableCell
+                        colSpan={7}
+                        className="text-center py-10 text-muted-foreground"
+                      >
+                        No messages found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredMessages.map((message) => (
+                      <TableRow key={message.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {format(message.createdAt, "MMM d, h:mm a")}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">
+                            {message.memberName}
+                          </div>
+                          <div className="text-gray-500">{message.phone}</div>
+                        </TableCell>
+                        <TableCell>
+                          {MESSAGE_TYPES[message.type] ?? message.type}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariant[message.status]}>
+                            {MESSAGE_STATUSES[message.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{message.attempts}</TableCell>
+                        <TableCell className="max-w-xs text-gray-500">
+                          {describeDelivery(message)}
+                        </TableCell>
+                        <TableCell>
+                          {(message.status === "sent" ||
+                            message.status === "failed") && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={resendMutation.isPending}
+                              onClick={() => resendMutation.mutate(message.id)}
+                            >
+                              <RotateCw className="h-4 w-4 mr-1" />
+                              Resend
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addMonths, format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useMessageTemplates } from "@/hooks/use-message-templates";
+import { getMembers, getMembershipPlans } from "@/lib/firestore";
+import {
+  TEMPLATES,
+  TEMPLATE_TYPES,
+  getMemberTemplateValues,
+} from "@/lib/templates";
+import { Member } from "@shared/schema";
+import AppLayout from "@/components/layout/app-layout";
+import TemplateEditor from "@/components/messaging/template-editor";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2 } from "lucide-react";
+
+const SAMPLE_MEMBER_ID = "sample";
+
+const sampleMember = {
+  name: "Rahul Sharma",
+  nextBillDate: format(addMonths(new Date(), 1), "yyyy-MM-dd"),
+};
+
+export default function MessageTemplatesPage() {
+  const { user } = useAuth();
+  const [previewMemberId, setPreviewMemberId] = useState(SAMPLE_MEMBER_ID);
+  const { data: templates, isLoading } = useMessageTemplates();
+
+  const { data: members = [] } = useQuery({
+    queryKey: ["members", "all"],
+    queryFn: async () => (await getMembers()) as unknown as Member[],
+  });
+  const { data: membershipPlans = [] } = useQuery({
+    queryKey: ["membershipPlans"],
+    queryFn: () => getMembershipPlans(),
+  });
+
+  const previewMember = members.find(
+    (member) => String(member.id) === previewMemberId
+  );
+  const previewPlan = previewMember
+    ? membershipPlans.find((plan) => plan.id === previewMember.membershipPlanId)
+        ?.name
+    : "Quarterly";
+  const previewValues = {
+    ...getMemberTemplateValues(
+      previewMember ?? sampleMember,
+      previewPlan,
+      user?.gymName
+    ),
+    amount: "1500",
+    festival: "Diwali",
+    discount: "₹200",
+  };
+
+  return (
+    <AppLayout>
+      <div className="p-2 md:p-6 text-xs md:text-base">
+        <h1 className="text-lg md:text-2xl font-bold text-gray-900 mb-2 md:mb-6">
+          Message Templates
+        </h1>
+        <Card>
+          <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-2 md:p-6">
+            <CardTitle className="text-base md:text-xl">
+              WhatsApp Templates
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Label className="whitespace-nowrap">Preview as</Label>
+              <Select
+                value={previewMemberId}
+                onValueChange={setPreviewMemberId}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SAMPLE_MEMBER_ID}>
+                    Sample member
+                  </SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={String(member.id)}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0">
+            {isLoading || !templates ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : (
+              <Tabs defaultValue={TEMPLATE_TYPES[0]}>
+                <TabsList className="flex flex-wrap h-auto mb-4">
+                  {TEMPLATE_TYPES.map((type) => (
+                    <TabsTrigger key={type} value={type}>
+                      {TEMPLATES[type].label}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {TEMPLATE_TYPES.map((type) => (
+                  <TabsContent key={type} value={type}>
+                    <TemplateEditor
+                      type={type}
+                      body={templates[type]}
+                      previewValues={previewValues}
+                    />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { useMessagingSettings } from "@/hooks/use-whatsapp";
+import { queryClient } from "@/lib/queryClient";
+import { saveMessagingSettings } from "@/lib/firestore";
+import { createWhatsAppClient } from "@/lib/whatsapp";
+import AppLayout from "@/components/layout/app-layout";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Loader2, PlugZap } from "lucide-react";
+
+const settingsSchema = z.object({
+  baseUrl: z
+    .string()
+    .url("Enter the full gateway URL, e.g. https://wa.example.com")
+    .refine(
+      (url) =>
+        url.startsWith("https://") ||
+        /^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?/.test(url),
+      "Use https:// (plain http is only allowed for localhost)"
+    ),
+  apiKey: z.string().min(1, "API key is required"),
+});
+
+type SettingsFormValues = z.infer<typeof settingsSchema>;
+
+export default function MessagingSettingsPage() {
+  const { toast } = useToast();
+  const { data: settings, isLoading } = useMessagingSettings();
+  const [isTesting, setIsTesting] = useState(false);
+
+  const form = useForm<SettingsFormValues>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: { baseUrl: "", apiKey: "" },
+  });
+
+  useEffect(() => {
+    if (settings) form.reset(settings);
+  }, [settings, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: saveMessagingSettings,
+    onSuccess: (data) => {
+      toast({
+        title: "Settings saved",
+        description: "The WhatsApp gateway settings have been updated.",
+      });
+      form.reset(data);
+      queryClient.invalidateQueries({ queryKey: ["messaging-settings"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTestConnection = async () => {
+    const isValid = await form.trigger();
+    if (!isValid) return;
+
+    setIsTesting(true);
+    try {
+      const status = await createWhatsAppClient(form.getValues()).getStatus();
+      toast({
+        title: "Gateway reachable",
+        description: status.loggedIn
+          ? "WhatsApp is connected and ready to send messages."
+          : "WhatsApp is not logged in yet. Scan the QR code on the WhatsApp page.",
+      });
+    } catch (error) {
+      toast({
+        title: "Connection failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="p-2 md:p-6 text-xs md:text-base">
+        <h1 className="text-lg md:text-2xl font-bold text-gray-900 mb-2 md:mb-6">
+          Messaging Settings
+        </h1>
+        <Card className="max-w-2xl">
+          <CardHeader className="p-2 md:p-6">
+            <CardTitle className="text-base md:text-xl">
+              WhatsApp Gateway
+            </CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              Welcome messages and reminders are sent through this gateway.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : (
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit((values) =>
+                    saveMutation.mutate(values)
+                  )}
+                  className="space-y-4"
+                >
+                  <FormField
+                    control={form.control}
+                    name="baseUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Gateway URL</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="https://wa.example.com"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          For local development run{" "}
+                          <code>npm run mock:whatsapp</code> and use
+                          http://localhost:3001
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="apiKey"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>API Key</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="off"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex justify-end gap-3">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleTestConnection}
+                      disabled={isTesting}
+                    >
+                      {isTesting ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <PlugZap className="mr-2 h-4 w-4" />
+                      )}
+                      Test Connection
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={
+                        saveMutation.isPending || !form.formState.isDirty
+                      }
+                    >
+                      {saveMutation.isPending && (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      Save
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
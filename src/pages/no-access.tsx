@@ -0,0 +1,40 @@
+import { Link } from "wouter";
+import AppLayout from "@/components/layout/app-layout";
+import { navItems } from "@/components/layout/nav-items";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+
+export default function NoAccess() {
+  const { canAccess } = usePermissions();
+  const firstAllowed = navItems.find((item) => canAccess(item.access));
+
+  return (
+    <AppLayout>
+      <div className="flex items-center justify-center min-h-[70vh] p-2 md:p-6">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <ShieldAlert className="h-8 w-8 text-yellow-500" />
+              <h1 className="text-lg md:text-2xl font-bold text-gray-900">
+                No Access
+              </h1>
+            </div>
+
+            <p className="mt-4 text-sm text-gray-600">
+              You don't have permission to view this page. Ask the gym owner to
+              update your trainer permissions if you need access.
+            </p>
+
+            {firstAllowed && (
+              <Button asChild className="mt-6 w-full">
+                <Link href={firstAllowed.href}>Go to {firstAllowed.name}</Link>
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
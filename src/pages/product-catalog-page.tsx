@@ -5,6 +5,7 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import {
   FIRESTORE_COLLECTIONS,
   addProduct,
@@ -75,6 +76,8 @@ type ProductFormValues = z.infer<typeof productSchema>;
 export default function ProductCatalogPage() {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { hasPermission } = usePermissions();
+  const canEditProducts = hasPermission("canEditProducts");
   const [isPhotoUploaded, setIsPhotoUploaded] = useState(false);
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
@@ -173,7 +176,7 @@ export default function ProductCatalogPage() {
       if (!user?.id) throw new Error("User not authenticated");
       return addProduct({
         ...data,
-        gymId: user.id,
+        gymId: user.gymId,
         price: parseFloat(data.price),
         category: data.category as ProductCategory,
       });
@@ -301,6 +304,7 @@ export default function ProductCatalogPage() {
           <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
             <DialogTrigger asChild>
               <Button
+                disabled={!canEditProducts}
                 onClick={() => {
                   setIsEditMode(false);
                   setSelectedProduct(null);
@@ -600,6 +604,7 @@ export default function ProductCatalogPage() {
                       <div className="absolute top-2 right-2">
                         <Switch
                           checked={product.isActive}
+                          disabled={!canEditProducts}
                           onCheckedChange={(checked) =>
                             updateProductMutation.mutate({
                               id: product.id,
@@ -637,13 +642,18 @@ export default function ProductCatalogPage() {
                             variant="outline"
                             size="sm"
                             onClick={() => handleEdit(product)}
+                            disabled={!canEditProducts}
                           >
                             <Edit className="h-4 w-4 mr-2" />
                             Edit
                           </Button>
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
-                              <Button variant="destructive" size="sm">
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                disabled={!canEditProducts}
+                              >
                                 <Trash2 className="h-4 w-4 mr-2" />
                                 Delete
                               </Button>
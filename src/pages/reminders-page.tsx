@@ -0,0 +1,344 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  runReminders,
+  useReminderPreview,
+  useReminderRules,
+} from "@/hooks/use-reminders";
+import { queryClient } from "@/lib/queryClient";
+import { saveReminderRules } from "@/lib/firestore";
+import { MESSAGE_TYPES } from "@/lib/messages";
+import { ReminderRule, describeReminderRule } from "@/lib/reminders";
+import AppLayout from "@/components/layout/app-layout";
+import BirthdaySettingsCard from "@/components/messaging/birthday-settings-card";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Send, Trash2 } from "lucide-react";
+
+type Timing = "before" | "on" | "after";
+
+const getTiming = (offsetDays: number): Timing =>
+  offsetDays < 0 ? "before" : offsetDays > 0 ? "after" : "on";
+
+const toOffset = (timing: Timing, days: number) =>
+  timing === "before" ? -days : timing === "after" ? days : 0;
+
+export default function RemindersPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<ReminderRule[]>([]);
+  const tomorrow = addDays(new Date(), 1);
+
+  const { data: savedRules, isLoading } = useReminderRules();
+  const { data: preview = [], isLoading: isPreviewLoading } =
+    useReminderPreview(tomorrow);
+
+  useEffect(() => {
+    if (savedRules) setRules(savedRules);
+  }, [savedRules]);
+
+  const offsets = rules.map((rule) => rule.offsetDays);
+  const hasDuplicates = new Set(offsets).size !== offsets.length;
+  const isDirty = JSON.stringify(rules) !== JSON.stringify(savedRules);
+
+  const updateRule = (index: number, changes: Partial<ReminderRule>) =>
+    setRules(
+      rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    );
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      saveReminderRules([...rules].sort((a, b) => a.offsetDays - b.offsetDays)),
+    onSuccess: () => {
+      toast({
+        title: "Reminder rules saved",
+        description: "Reminders will be sent using the new rules.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["reminder-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["reminders"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save reminder rules",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => runReminders(user?.gymName),
+    onSuccess: (queued) => {
+      toast({
+        title: "Reminders queued",
+        description:
+          queued > 0
+            ? `${queued} reminder${queued === 1 ? "" : "s"} queued for sending.`
+            : "Everyone due today has already been reminded.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["reminders"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to queue reminders",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AppLayout>
+      <div className="p-2 md:p-6 text-xs md:text-base space-y-4 md:space-y-6">
+        <h1 className="text-lg md:text-2xl font-bold text-gray-900">
+          Automated Messages
+        </h1>
+
+        <Card>
+          <CardHeader className="p-2 md:p-6">
+            <CardTitle className="text-base md:text-xl">
+              Reminder Rules
+            </CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              Each member gets at most one message per rule for every billing
+              period. Message text comes from the message templates.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0 space-y-3">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : (
+              <>
+                {rules.map((rule, index) => {
+                  const timing = getTiming(rule.offsetDays);
+                  return (
+                    <div
+                      key={index}
+                      className="flex flex-wrap items-center gap-2 md:gap-3"
+                    >
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(enabled) =>
+                          updateRule(index, { enabled })
+                        }
+                      />
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-20"
+                        disabled={timing === "on"}
+                        value={Math.abs(rule.offsetDays)}
+                        onChange={(e) =>
+                          updateRule(index, {
+                            offsetDays: toOffset(
+                              timing,
+                              Math.max(1, Number(e.target.value) || 1)
+                            ),
+                          })
+                        }
+                      />
+                      <Select
+                        value={timing}
+                        onValueChange={(value) =>
+                          updateRule(index, {
+                            offsetDays: toOffset(
+                              value as Timing,
+                              Math.max(1, Math.abs(rule.offsetDays))
+                            ),
+                          })
+                        }
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="before">
+                            days before expiry
+                          </SelectItem>
+                          <SelectItem value="on">on expiry day</SelectItem>
+                          <SelectItem value="after">
+                            days after expiry
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={rule.type}
+                        onValueChange={(value) =>
+                          updateRule(index, {
+                            type: value as ReminderRule["type"],
+                          })
+                        }
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="renewal_reminder">
+                            {MESSAGE_TYPES.renewal_reminder} template
+                          </SelectItem>
+                          <SelectItem value="expiry">
+                            {MESSAGE_TYPES.expiry} template
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() =>
+                          setRules(rules.filter((_, i) => i !== index))
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+
+                {hasDuplicates && (
+                  <p className="text-sm font-medium text-destructive">
+                    Two rules cannot fire on the same day.
+                  </p>
+                )}
+
+                <div className="flex justify-between gap-3 pt-2">
+                  <Button
+                    variant="outline"
+                    onClick={() =>
+                      setRules([
+                        ...rules,
+                        {
+                          offsetDays: Math.min(...offsets, 0) - 1,
+                          type: "renewal_reminder",
+                          enabled: true,
+                        },
+                      ])
+                    }
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Rule
+                  </Button>
+                  <Button
+                    disabled={
+                      saveMutation.isPending || !isDirty || hasDuplicates
+                    }
+                    onClick={() => saveMutation.mutate()}
+                  >
+                    {saveMutation.isPending && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Save
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-2 md:p-6">
+            <div>
+              <CardTitle className="text-base md:text-xl">
+                Tomorrow ({format(tomorrow, "MMM d")})
+              </CardTitle>
+              <CardDescription className="text-xs md:text-sm">
+                Members who will be reminded tomorrow with the saved rules.
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              disabled={runMutation.isPending}
+              onClick={() => runMutation.mutate()}
+            >
+              {runMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Send Today's Reminders Now
+            </Button>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0">
+            <div className="overflow-x-auto rounded-md border">
+              <Table className="text-xs md:text-sm">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Message</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isPreviewLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-10">
+                        <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+                      </TableCell>
+                    </TableRow>
+                  ) : preview.length === 0 ? (
+                    <TableRow>
+                      <TableCell
+                        colSpan={4}
+                        className="text-center py-10 text-muted-foreground"
+                      >
+                        No reminders due tomorrow
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    preview.map(({ member, rule, body }) => (
+                      <TableRow key={member.id}>
+                        <TableCell>
+                          <div className="font-medium">{member.name}</div>
+                          <div className="text-gray-500">{member.phone}</div>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(member.nextBillDate), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {describeReminderRule(rule)}
+                        </TableCell>
+                        <TableCell className="max-w-md text-gray-500">
+                          {body}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <BirthdaySettingsCard />
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { endOfMonth, format, startOfMonth, subMonths } from "date-fns";
+import { getMembers } from "@/lib/firestore";
+import { ExportFormat } from "@/lib/export";
+import { useReportExport } from "@/hooks/use-report-export";
+import { DateRange } from "@/lib/revenue";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Member } from "@shared/schema";
+import AppLayout from "@/components/layout/app-layout";
+import ExportMenu from "@/components/reports/export-menu";
+import RevenueAnalytics from "@/components/reports/revenue-analytics";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+const monthRange = (month: Date): DateRange => ({
+  from: format(startOfMonth(month), DATE_FORMAT),
+  to: format(endOfMonth(month), DATE_FORMAT),
+});
+
+export default function ReportsPage() {
+  const { hasPermission } = usePermissions();
+  const { exportMembers, exportPayments, exportAttendance, isExporting } =
+    useReportExport();
+  const [range, setRange] = useState<DateRange>(() => monthRange(new Date()));
+  const isRangeValid = !!range.from && !!range.to && range.from <= range.to;
+
+  const handleExportMembers = (exportFormat: ExportFormat) =>
+    exportMembers(
+      async () => (await getMembers()) as unknown as Member[],
+      exportFormat
+    );
+
+  return (
+    <AppLayout>
+      <div className="p-2 md:p-6 text-xs md:text-base space-y-4 md:space-y-6">
+        <h1 className="text-lg md:text-2xl font-bold text-gray-900">Reports</h1>
+
+        <Card>
+          <CardHeader className="p-2 md:p-6">
+            <CardTitle className="text-base md:text-xl">Period</CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              Revenue is compared with the same number of days before this
+              period
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0">
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="report-from">From</Label>
+                <Input
+                  id="report-from"
+                  type="date"
+                  value={range.from}
+                  onChange={(e) => setRange({ ...range, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="report-to">To</Label>
+                <Input
+                  id="report-to"
+                  type="date"
+                  value={range.to}
+                  onChange={(e) => setRange({ ...range, to: e.target.value })}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRange(monthRange(new Date()))}
+                >
+                  This Month
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRange(monthRange(subMonths(new Date(), 1)))}
+                >
+                  Last Month
+                </Button>
+              </div>
+            </div>
+            {!isRangeValid && (
+              <p className="mt-2 text-sm font-medium text-destructive">
+                Choose a start date on or before the end date
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {hasPermission("canViewPayments") && (
+          <RevenueAnalytics range={range} enabled={isRangeValid} />
+        )}
+
+        <h2 className="text-base md:text-xl font-semibold text-gray-900">
+          Exports
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {hasPermission("canViewPayments") && (
+            <Card>
+              <CardHeader className="p-2 md:p-6">
+                <CardTitle className="text-base md:text-xl">
+                  Payment Ledger
+                </CardTitle>
+                <CardDescription className="text-xs md:text-sm">
+                  Every payment collected in the period, with totals
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-2 md:p-6 pt-0">
+                <ExportMenu
+                  onExport={(exportFormat) =>
+                    exportPayments(range, exportFormat)
+                  }
+                  disabled={!isRangeValid}
+                  isExporting={isExporting}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {hasPermission("canViewAttendance") && (
+            <Card>
+              <CardHeader className="p-2 md:p-6">
+                <CardTitle className="text-base md:text-xl">
+                  Attendance
+                </CardTitle>
+                <CardDescription className="text-xs md:text-sm">
+                  Every check-in in the period
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-2 md:p-6 pt-0">
+                <ExportMenu
+                  onExport={(exportFormat) =>
+                    exportAttendance(range, exportFormat)
+                  }
+                  disabled={!isRangeValid}
+                  isExporting={isExporting}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {hasPermission("canViewMembers") && (
+            <Card>
+              <CardHeader className="p-2 md:p-6">
+                <CardTitle className="text-base md:text-xl">Members</CardTitle>
+                <CardDescription className="text-xs md:text-sm">
+                  All members with plan and status. Filtered lists can be
+                  exported from the dashboard.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-2 md:p-6 pt-0">
+                <ExportMenu
+                  onExport={handleExportMembers}
+                  isExporting={isExporting}
+                />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,344 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, parse, subDays } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  enqueueMessage,
+  getFreezesSince,
+  getMembers,
+  getMembershipPlans,
+  getMessageTemplates,
+  getRecentMessages,
+  getRenewalsInRange,
+} from "@/lib/firestore";
+import { queryClient } from "@/lib/queryClient";
+import {
+  RETENTION_MILESTONES,
+  WIN_BACK_COOLDOWN_DAYS,
+  WIN_BACK_MAX_DAYS,
+  getChurnTrend,
+  getCohortStart,
+  getRetentionCohorts,
+  getWinBackCandidates,
+} from "@/lib/retention";
+import { getMemberTemplateValues, renderTemplate } from "@/lib/templates";
+import { Member } from "@shared/schema";
+import AppLayout from "@/components/layout/app-layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Send } from "lucide-react";
+
+const churnConfig = {
+  rate: { label: "Churn %", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+// Shade retention cells from red (low) to green (high)
+const retentionClass = (value: number) =>
+  value >= 0.75
+    ? "bg-green-100 text-green-800"
+    : value >= 0.5
+      ? "bg-lime-50 text-lime-800"
+      : value >= 0.25
+        ? "bg-amber-50 text-amber-800"
+        : "bg-red-50 text-red-800";
+
+export default function RetentionPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey: ["members", "all"],
+    queryFn: async () => (await getMembers()) as unknown as Member[],
+  });
+  // Every term since the oldest cohort joined, for the cohort table
+  const cohortStart = getCohortStart();
+  const { data: renewals = [], isLoading: isLoadingRenewals } = useQuery({
+    queryKey: ["renewals", "since", cohortStart],
+    queryFn: () =>
+      getRenewalsInRange(
+        parse(cohortStart, "yyyy-MM-dd", new Date()),
+        new Date()
+      ),
+  });
+  const { data: freezes = [], isLoading: isLoadingFreezes } = useQuery({
+    queryKey: ["freezes", "since", cohortStart],
+    queryFn: () => getFreezesSince(cohortStart),
+  });
+  const { data: membershipPlans = [] } = useQuery({
+    queryKey: ["membershipPlans"],
+    queryFn: () => getMembershipPlans(),
+  });
+  const { data: recentWinBacks = [] } = useQuery({
+    queryKey: ["messages", "win_back"],
+    queryFn: () =>
+      getRecentMessages(
+        "win_back",
+        subDays(new Date(), WIN_BACK_COOLDOWN_DAYS)
+      ),
+  });
+
+  const cohorts = getRetentionCohorts(members, renewals, freezes);
+  const churn = getChurnTrend(members);
+  const candidates = getWinBackCandidates(members);
+  const lastSent = new Map(
+    recentWinBacks.map((message) => [message.memberId, message.createdAt])
+  );
+
+  const winBackMutation = useMutation({
+    mutationFn: async (member: Member) => {
+      const templates = await queryClient.fetchQuery({
+        queryKey: ["message-templates"],
+        queryFn: getMessageTemplates,
+      });
+      const plan = membershipPlans.find(
+        (plan) => plan.id === member.membershipPlanId
+      );
+      await enqueueMessage({
+        memberId: String(member.id),
+        memberName: member.name,
+        phone: member.phone,
+        type: "win_back",
+        body: renderTemplate(
+          templates.win_back,
+          getMemberTemplateValues(member, plan?.name, user?.gymName)
+        ),
+      });
+    },
+    onSuccess: (_, member) => {
+      toast({
+        title: "Win-back message queued",
+        description: `${member.name} will receive it shortly.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["messages"] });
+      queryClient.invalidateQueries({ queryKey: ["message-queue"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to queue message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || isLoadingRenewals || isLoadingFreezes) {
+    return (
+      <AppLayout>
+        <div className="flex justify-center my-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="p-2 md:p-6 text-xs md:text-base space-y-4 md:space-y-6">
+        <h1 className="text-lg md:text-2xl font-bold text-gray-900">
+          Retention
+        </h1>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader className="p-2 md:p-6">
+              <CardTitle className="text-base md:text-xl">
+                Joining Cohorts
+              </CardTitle>
+              <CardDescription className="text-xs md:text-sm">
+                Share of each month's new members still paid up after 1, 3, 6
+                and 12 months
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-2 md:p-6 pt-0">
+              <div className="overflow-x-auto rounded-md border">
+                <Table className="text-xs md:text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Joined</TableHead>
+                      <TableHead className="text-right">Members</TableHead>
+                      {RETENTION_MILESTONES.map((milestone) => (
+                        <TableHead key={milestone} className="text-center">
+                          {milestone} mo
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {cohorts.map((cohort) => (
+                      <TableRow key={cohort.month}>
+                        <TableCell className="font-medium">
+                          {cohort.month}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {cohort.joined}
+                        </TableCell>
+                        {RETENTION_MILESTONES.map((milestone) => {
+                          const value = cohort.retention[milestone];
+                          return (
+                            <TableCell
+                              key={milestone}
+                              className={
+                                value === null
+                                  ? "text-center text-muted-foreground"
+                                  : `text-center ${retentionClass(value)}`
+                              }
+                            >
+                              {value === null
+                                ? "-"
+                                : `${Math.round(value * 100)}%`}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="p-2 md:p-6">
+              <CardTitle className="text-base md:text-xl">
+                Monthly Churn
+              </CardTitle>
+              <CardDescription className="text-xs md:text-sm">
+                Members whose term ended in the month without a renewal, as a
+                share of members paid up that month
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-2 md:p-6 pt-0">
+              <ChartContainer config={churnConfig} className="h-72 w-full">
+                <LineChart data={churn}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    unit="%"
+                    width={45}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, _, item) =>
+                          `${Number(value).toFixed(1)}% (${item.payload.lapsed} of ${item.payload.members})`
+                        }
+                      />
+                    }
+                  />
+                  <Line
+                    dataKey="rate"
+                    stroke="var(--color-rate)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="p-2 md:p-6">
+            <CardTitle className="text-base md:text-xl">
+              Members Worth Winning Back
+            </CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              Lapsed in the last {WIN_BACK_MAX_DAYS} days, longest-standing
+              members first
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-2 md:p-6 pt-0">
+            {candidates.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                No recently lapsed members
+              </p>
+            ) : (
+              <div className="overflow-x-auto rounded-md border max-h-[32rem]">
+                <Table className="text-xs md:text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Mobile</TableHead>
+                      <TableHead>Plan</TableHead>
+                      <TableHead>Expired</TableHead>
+                      <TableHead>Member For</TableHead>
+                      <TableHead className="text-right">Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidates.map(({ member, daysLapsed, tenureMonths }) => {
+                      const sentAt = lastSent.get(String(member.id));
+                      return (
+                        <TableRow key={member.id}>
+                          <TableCell className="font-medium">
+                            {member.name}
+                          </TableCell>
+                          <TableCell>{member.phone}</TableCell>
+                          <TableCell>
+                            {membershipPlans.find(
+                              (plan) => plan.id === member.membershipPlanId
+                            )?.name ?? "-"}
+                          </TableCell>
+                          <TableCell>{daysLapsed} days ago</TableCell>
+                          <TableCell>
+                            {tenureMonths < 1
+                              ? "Under a month"
+                              : `${tenureMonths} months`}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {sentAt ? (
+                              <Badge variant="secondary">
+                                Sent {format(sentAt, "MMM d")}
+                              </Badge>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={
+                                  winBackMutation.isPending &&
+                                  winBackMutation.variables?.id === member.id
+                                }
+                                onClick={() => winBackMutation.mutate(member)}
+                              >
+                                <Send className="h-4 w-4 mr-2" />
+                                Win Back
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -12,7 +12,18 @@ import {
   deleteTrainer,
   Trainer,
 } from "@/lib/firestore";
-import { TrainerPermissions } from "@/lib/types";
+import {
+  PERMISSIONS,
+  PERMISSION_KEYS,
+  PermissionKey,
+  ROLE_PRESETS,
+  changesOnlyHeld,
+  defaultPermissions,
+  findPreset,
+  getDependents,
+  getPermissionsByGroup,
+  setPermission,
+} from "@/lib/permissions";
 import AppLayout from "@/components/layout/app-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -26,6 +37,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Loader2, Plus, Search, Trash2, Edit, ArrowLeft } from "lucide-react";
 import { z } from "zod";
 import {
@@ -51,20 +63,11 @@ const trainerSchema = z
       .string()
       .min(6, "Password must be at least 6 characters"),
     isActive: z.boolean(),
-    permissions: z.object({
-      canViewMembers: z.boolean(),
-      canEditMembers: z.boolean(),
-      canViewAttendance: z.boolean(),
-      canEditAttendance: z.boolean(),
-      canViewProducts: z.boolean(),
-      canEditProducts: z.boolean(),
-      canViewPayments: z.boolean(),
-      canEditPayments: z.boolean(),
-      canViewTrainers: z.boolean(),
-      canEditTrainers: z.boolean(),
-      canViewDashboard: z.boolean(),
-      canViewReports: z.boolean(),
-    }),
+    permissions: z.object(
+      Object.fromEntries(
+        PERMISSION_KEYS.map((key) => [key, z.boolean()])
+      ) as Record<PermissionKey, z.ZodBoolean>
+    ),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords don't match",
@@ -73,24 +76,14 @@ const trainerSchema = z
 
 type TrainerFormData = z.infer<typeof trainerSchema>;
 
-const defaultPermissions: TrainerPermissions = {
-  canViewMembers: false,
-  canEditMembers: false,
-  canViewProducts: false,
-  canEditProducts: false,
-  canViewTrainers: false,
-  canEditTrainers: false,
-  canViewDashboard: false,
-  canViewReports: false,
-};
-
 type ViewMode = "list" | "add" | "edit";
 
 export default function TrainerManagementPage() {
   const { toast } = useToast();
   const { user } = useAuth();
   const queryClient = useQueryClient();
-  const { isAdmin, hasPermission } = usePermissions();
+  const { hasPermission, isAdmin } = usePermissions();
+  const canEditTrainers = hasPermission("canEditTrainers");
   const [viewMode, setViewMode] = useState<ViewMode>("list");
   const [selectedTrainer, setSelectedTrainer] = useState<Trainer | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
@@ -124,11 +117,11 @@ export default function TrainerManagementPage() {
   );
 
   const addTrainerMutation = useMutation({
-    mutationFn: async (data: TrainerFormData) => {
+    mutationFn: async (data: Omit<TrainerFormData, "confirmPassword">) => {
       if (!user?.id) throw new Error("User not authenticated");
       return addTrainer({
         ...data,
-        gymId: user.id,
+        gymId: user.gymId,
       });
     },
     onSuccess: () => {
@@ -223,33 +216,25 @@ export default function TrainerManagementPage() {
   };
 
   const onSubmit = (values: TrainerFormData) => {
+    // Passwords only go to Firebase Auth, never into the trainer document
+    const { password, confirmPassword, ...trainerData } = values;
     if (viewMode === "edit" && selectedTrainer) {
       updateTrainerMutation.mutate({
         id: selectedTrainer.id,
-        data: values,
+        data: trainerData,
       });
     } else {
-      addTrainerMutation.mutate(values);
+      addTrainerMutation.mutate({ ...trainerData, password });
     }
   };
 
-  if (!isAdmin && !hasPermission("canViewTrainers")) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <p className="text-lg text-muted-foreground">
-          You don't have permission to view this page.
-        </p>
-      </div>
-    );
-  }
-
   const renderListView = () => (
     <>
       <div className="flex justify-between items-center mb-4">
         <h1 className="text-lg md:text-2xl font-bold text-gray-900">
           Trainer Management
         </h1>
-        <Button onClick={() => setViewMode("add")}>
+        <Button onClick={() => setViewMode("add")} disabled={!canEditTrainers}>
           <Plus className="h-4 w-4 mr-2" />
           Add Trainer
         </Button>
@@ -292,6 +277,7 @@ export default function TrainerManagementPage() {
                       <div className="flex items-center gap-2">
                         <Switch
                           checked={trainer.isActive}
+                          disabled={!canEditTrainers}
                           onCheckedChange={(checked) =>
                             updateTrainerMutation.mutate({
                               id: trainer.id,
@@ -299,72 +285,70 @@ export default function TrainerManagementPage() {
                             })
                           }
                         />
-                        {hasPermission("canEditTrainers") && (
-                          <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleEdit(trainer)}
+                          disabled={!canEditTrainers}
+                        >
+                          <Edit className="h-4 w-4 mr-2" />
+                          Edit
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
                             <Button
-                              variant="outline"
+                              variant="destructive"
                               size="sm"
-                              onClick={() => handleEdit(trainer)}
+                              disabled={!canEditTrainers}
                             >
-                              <Edit className="h-4 w-4 mr-2" />
-                              Edit
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
                             </Button>
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
-                                <Button variant="destructive" size="sm">
-                                  <Trash2 className="h-4 w-4 mr-2" />
-                                  Delete
-                                </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>
-                                    Are you sure you want to delete this
-                                    trainer?
-                                  </AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    This action cannot be undone. This will
-                                    permanently delete the trainer and their
-                                    account.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={() => handleDelete(trainer.id)}
-                                  >
-                                    Delete
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
-                          </>
-                        )}
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>
+                                Are you sure you want to delete this trainer?
+                              </AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This action cannot be undone. This will
+                                permanently delete the trainer and their
+                                account.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDelete(trainer.id)}
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
                       </div>
                     </div>
 
                     <div className="space-y-2 mb-4">
                       <h4 className="font-medium text-sm">Permissions:</h4>
                       <div className="grid grid-cols-2 gap-2">
-                        {Object.entries(trainer.permissions).map(
-                          ([key, value]) => (
+                        {PERMISSION_KEYS.map((key) => (
+                          <div
+                            key={key}
+                            className="flex items-center space-x-2 text-sm"
+                          >
                             <div
-                              key={key}
-                              className="flex items-center space-x-2 text-sm"
-                            >
-                              <div
-                                className={`w-2 h-2 rounded-full ${
-                                  value ? "bg-green-500" : "bg-gray-300"
-                                }`}
-                              />
-                              <span className="text-gray-600">
-                                {key
-                                  .replace(/([A-Z])/g, " $1")
-                                  .replace(/^./, (str) => str.toUpperCase())}
-                              </span>
-                            </div>
-                          )
-                        )}
+                              className={`w-2 h-2 rounded-full ${
+                                trainer.permissions[key]
+                                  ? "bg-green-500"
+                                  : "bg-gray-300"
+                              }`}
+                            />
+                            <span className="text-gray-600">
+                              {PERMISSIONS[key].label}
+                            </span>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </CardContent>
@@ -515,133 +499,112 @@ export default function TrainerManagementPage() {
               {/* Permissions Section */}
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold">Permissions</h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="permissions.canViewMembers"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel>View Members</FormLabel>
-                          <div className="text-sm text-muted-foreground">
-                            Can view member information
-                          </div>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="permissions.canEditMembers"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel>Edit Members</FormLabel>
-                          <div className="text-sm text-muted-foreground">
-                            Can edit member information
-                          </div>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="permissions.canViewProducts"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel>View Products</FormLabel>
-                          <div className="text-sm text-muted-foreground">
-                            Can view product catalog
-                          </div>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="permissions.canEditProducts"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel>Edit Products</FormLabel>
-                          <div className="text-sm text-muted-foreground">
-                            Can edit product catalog
-                          </div>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="permissions.canViewDashboard"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel>View Dashboard</FormLabel>
-                          <div className="text-sm text-muted-foreground">
-                            Can view dashboard
-                          </div>
+                {!isAdmin && (
+                  <p className="text-sm text-muted-foreground">
+                    You can only grant or remove permissions you have yourself.
+                  </p>
+                )}
+                <FormField
+                  control={form.control}
+                  name="permissions"
+                  render={({ field }) => (
+                    <FormItem className="space-y-4">
+                      <div className="space-y-2">
+                        <FormLabel>Role preset</FormLabel>
+                        <div className="flex flex-wrap gap-2">
+                          {ROLE_PRESETS.map((rolePreset) => (
+                            <Button
+                              key={rolePreset.id}
+                              type="button"
+                              size="sm"
+                              variant={
+                                findPreset(field.value)?.id === rolePreset.id
+                                  ? "default"
+                                  : "outline"
+                              }
+                              title={rolePreset.description}
+                              disabled={
+                                !changesOnlyHeld(
+                                  field.value,
+                                  rolePreset.permissions,
+                                  hasPermission
+                                )
+                              }
+                              onClick={() =>
+                                field.onChange(rolePreset.permissions)
+                              }
+                            >
+                              {rolePreset.name}
+                            </Button>
+                          ))}
                         </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
+                      </div>
 
-                  <FormField
-                    control={form.control}
-                    name="permissions.canViewReports"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel>View Reports</FormLabel>
-                          <div className="text-sm text-muted-foreground">
-                            Can view reports
+                      {getPermissionsByGroup().map(({ group, label, keys }) => (
+                        <div key={group} className="space-y-2">
+                          <h4 className="font-medium text-sm text-gray-700">
+                            {label}
+                          </h4>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {keys.map((key) => {
+                              const dependents = getDependents(
+                                field.value,
+                                key
+                              );
+                              const toggled = setPermission(
+                                field.value,
+                                key,
+                                !field.value[key]
+                              );
+                              return (
+                                <div
+                                  key={key}
+                                  className="flex flex-row items-center justify-between rounded-lg border p-4"
+                                >
+                                  <div className="space-y-0.5">
+                                    <Label htmlFor={`permission-${key}`}>
+                                      {PERMISSIONS[key].label}
+                                    </Label>
+                                    <div className="text-sm text-muted-foreground">
+                                      {PERMISSIONS[key].description}
+                                    </div>
+                                    {dependents.length > 0 && (
+                                      <div className="text-xs text-muted-foreground">
+                                        Required by{" "}
+                                        {dependents
+                                          .map(
+                                            (dependent) =>
+                                              PERMISSIONS[dependent].label
+                                          )
+                                          .join(", ")}
+                                      </div>
+                                    )}
+                                  </div>
+                                  <Switch
+                                    id={`permission-${key}`}
+                                    checked={field.value[key]}
+                                    disabled={
+                                      !changesOnlyHeld(
+                                        field.value,
+                                        toggled,
+                                        hasPermission
+                                      )
+                                    }
+                                    onCheckedChange={(checked) =>
+                                      field.onChange(
+                                        setPermission(field.value, key, checked)
+                                      )
+                                    }
+                                  />
+                                </div>
+                              );
+                            })}
                           </div>
                         </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                      ))}
+                    </FormItem>
+                  )}
+                />
               </div>
 
               <div className="flex justify-end space-x-2 pt-4">
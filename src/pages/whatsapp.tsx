@@ -1,20 +1,23 @@
 import React, { useEffect, useState } from "react";
-import io from "socket.io-client";
+import { Link } from "wouter";
 import AppLayout from "@/components/layout/app-layout";
+import { Button } from "@/components/ui/button";
+import { useWhatsAppClient } from "@/hooks/use-whatsapp";
 import { Loader2 } from "lucide-react";
 
 const WhatsAppLogin: React.FC = () => {
+  const { client, isLoading: isLoadingSettings } = useWhatsAppClient();
   const [qr, setQr] = useState<string | null>(null);
   const [loggedIn, setLoggedIn] = useState(false);
   const [loading, setLoading] = useState(true);
   const [alert, setAlert] = useState<string | null>(null);
 
   useEffect(() => {
-    const socketInstance = io("http://165.232.176.49:3001");
+    if (!client) return;
+
     const checkStatus = async () => {
       try {
-        const res = await fetch("http://165.232.176.49:3001/status");
-        const data = await res.json();
+        const data = await client.getStatus();
         setLoggedIn(data.loggedIn);
         setLoading(false);
         if (!data.loggedIn) {
@@ -22,49 +25,63 @@ const WhatsAppLogin: React.FC = () => {
         }
       } catch (error) {
         setLoading(false);
-        setAlert("Failed to connect to server. Please try again.");
+        setAlert(
+          (error as Error).message ||
+            "Failed to connect to server. Please try again."
+        );
       }
     };
 
     checkStatus();
 
-    socketInstance.on("qr", (qrData: string) => {
-      setQr(qrData);
-      setLoggedIn(false);
-      setLoading(false);
-      setAlert("Please scan the QR code to login.");
-    });
-
-    socketInstance.on("ready", () => {
-      setLoggedIn(true);
-      setQr(null);
-      setLoading(false);
-      setAlert("WhatsApp successfully connected!");
-      setTimeout(() => setAlert(null), 3000);
-    });
-
-    socketInstance.on("disconnected", () => {
-      setLoggedIn(false);
-      setQr(null);
-      setLoading(false);
-      setAlert("WhatsApp disconnected. Please scan QR code to reconnect.");
-    });
-
-    socketInstance.on("auth_failure", (msg: string) => {
-      setLoggedIn(false);
-      setQr(null);
-      setLoading(false);
-      setAlert(
-        `Authentication failed: ${msg}. Please scan QR code to reconnect.`
-      );
+    return client.subscribe({
+      qr: (qrData) => {
+        setQr(qrData);
+        setLoggedIn(false);
+        setLoading(false);
+        setAlert("Please scan the QR code to login.");
+      },
+      ready: () => {
+        setLoggedIn(true);
+        setQr(null);
+        setLoading(false);
+        setAlert("WhatsApp successfully connected!");
+        setTimeout(() => setAlert(null), 3000);
+      },
+      disconnected: () => {
+        setLoggedIn(false);
+        setQr(null);
+        setLoading(false);
+        setAlert("WhatsApp disconnected. Please scan QR code to reconnect.");
+      },
+      auth_failure: (msg) => {
+        setLoggedIn(false);
+        setQr(null);
+        setLoading(false);
+        setAlert(
+          `Authentication failed: ${msg}. Please scan QR code to reconnect.`
+        );
+      },
     });
+  }, [client]);
 
-    return () => {
-      if (socketInstance) {
-        socketInstance.disconnect();
-      }
-    };
-  }, []);
+  if (!isLoadingSettings && !client) {
+    return (
+      <AppLayout>
+        <div className="flex flex-col items-center justify-center h-[70vh] text-center p-2">
+          <h2 className="text-lg md:text-2xl font-bold mb-2">
+            WhatsApp gateway not configured
+          </h2>
+          <p className="text-gray-600 mb-4">
+            Add your gateway URL and API key to start sending messages.
+          </p>
+          <Link href="/settings/messaging">
+            <Button>Open Messaging Settings</Button>
+          </Link>
+        </div>
+      </AppLayout>
+    );
+  }
 
   if (loading) {
     return (
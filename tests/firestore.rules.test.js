@@ -0,0 +1,356 @@
+// Firestore security rules tests. Every gym's data must stay out of reach of
+// other gyms, and trainers may only do what their gym owner granted them.
+//
+// Usage: npm run test:rules  (starts the Firestore emulator, which needs Java)
+import { readFileSync } from "fs";
+import { after, before, beforeEach, describe, test } from "node:test";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+
+const GYM_A = "gym-a";
+const GYM_B = "gym-b";
+
+const permissions = (granted = {}) => ({
+  canViewDashboard: false,
+  canViewMembers: false,
+  canEditMembers: false,
+  canViewPayments: false,
+  canEditPayments: false,
+  canViewAttendance: false,
+  canEditAttendance: false,
+  canViewProducts: false,
+  canEditProducts: false,
+  canViewTrainers: false,
+  canEditTrainers: false,
+  canViewReports: false,
+  ...granted,
+});
+
+const member = (gymId) => ({
+  gymId,
+  name: "Asha",
+  phone: "9876543210",
+  dateOfBirth: "1995-04-12",
+  joiningDate: "2026-01-05",
+  nextBillDate: "2026-11-05",
+  membershipPlanId: "plan-1",
+  isActive: true,
+  isPaid: true,
+});
+
+const payment = (gymId) => ({
+  gymId,
+  memberId: "member-a",
+  planId: "plan-1",
+  amount: 1500,
+  discount: 0,
+  mode: "cash",
+  periodStart: "2026-10-05",
+  periodEnd: "2026-11-05",
+  collectedBy: { id: GYM_A, name: "Owner" },
+});
+
+const trainer = (gymId, granted) => ({
+  gymId,
+  name: "Ravi",
+  email: "ravi@example.com",
+  phone: "9123456780",
+  isActive: true,
+  permissions: permissions(granted),
+});
+
+let testEnv;
+
+// Signs in as a gym owner (whose uid is their gymId) or as a seeded trainer
+const as = (uid) => testEnv.authenticatedContext(uid).firestore();
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-gym-rules",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, "members/member-a"), member(GYM_A));
+    await setDoc(doc(db, "payments/payment-a"), payment(GYM_A));
+    await setDoc(doc(db, "trainers/trainer-a"), trainer(GYM_A));
+
+    // A trainer of gym A with no permissions, and one who manages trainers
+    await setDoc(doc(db, "trainers/desk"), trainer(GYM_A));
+    await setDoc(doc(db, "users/desk-uid"), {
+      id: "desk-uid",
+      role: "trainer",
+      gymId: GYM_A,
+      trainerId: "desk",
+    });
+    await setDoc(
+      doc(db, "trainers/manager"),
+      trainer(GYM_A, { canViewTrainers: true, canEditTrainers: true })
+    );
+    await setDoc(doc(db, "users/manager-uid"), {
+      id: "manager-uid",
+      role: "trainer",
+      gymId: GYM_A,
+      trainerId: "manager",
+    });
+  });
+});
+
+describe("another gym", () => {
+  test("cannot read or write a member", async () => {
+    const db = as(GYM_B);
+    await assertFails(getDoc(doc(db, "members/member-a")));
+    await assertFails(updateDoc(doc(db, "members/member-a"), { name: "X" }));
+    await assertFails(setDoc(doc(db, "members/new"), member(GYM_A)));
+  });
+
+  test("cannot move a member into its own gym", async () => {
+    await assertFails(
+      updateDoc(doc(as(GYM_B), "members/member-a"), { gymId: GYM_B })
+    );
+  });
+
+  test("cannot read or write a payment", async () => {
+    const db = as(GYM_B);
+    await assertFails(getDoc(doc(db, "payments/payment-a")));
+    await assertFails(setDoc(doc(db, "payments/new"), payment(GYM_A)));
+    await assertFails(updateDoc(doc(db, "payments/payment-a"), { amount: 0 }));
+  });
+
+  test("cannot read or write a trainer", async () => {
+    const db = as(GYM_B);
+    await assertFails(getDoc(doc(db, "trainers/trainer-a")));
+    await assertFails(
+      updateDoc(doc(db, "trainers/trainer-a"), {
+        permissions: permissions({ canEditMembers: true }),
+      })
+    );
+    await assertFails(setDoc(doc(db, "trainers/new"), trainer(GYM_A)));
+  });
+});
+
+describe("the gym owner", () => {
+  test("can read and write their own gym's documents", async () => {
+    const db = as(GYM_A);
+    await assertSucceeds(getDoc(doc(db, "members/member-a")));
+    await assertSucceeds(getDoc(doc(db, "payments/payment-a")));
+    await assertSucceeds(getDoc(doc(db, "trainers/trainer-a")));
+    await assertSucceeds(setDoc(doc(db, "payments/new"), payment(GYM_A)));
+  });
+
+  test("cannot redeem a coupon twice", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "coupons/coupon-a"), {
+        gymId: GYM_A,
+        memberId: "member-a",
+        reason: "birthday",
+        discount: 200,
+        expiresOn: "2026-12-31",
+        redeemedAt: null,
+        renewalId: null,
+      });
+    });
+    const redeem = (renewalId) =>
+      updateDoc(doc(as(GYM_A), "coupons/coupon-a"), {
+        redeemedAt: new Date(),
+        renewalId,
+      });
+    await assertSucceeds(redeem("renewal-1"));
+    await assertFails(redeem("renewal-2"));
+  });
+});
+
+describe("a trainer without permissions", () => {
+  test("cannot read or write members", async () => {
+    const db = as("desk-uid");
+    await assertFails(getDoc(doc(db, "members/member-a")));
+    await assertFails(setDoc(doc(db, "members/new"), member(GYM_A)));
+  });
+
+  test("cannot read or record payments", async () => {
+    const db = as("desk-uid");
+    await assertFails(getDoc(doc(db, "payments/payment-a")));
+    await assertFails(setDoc(doc(db, "payments/new"), payment(GYM_A)));
+  });
+
+  test("cannot read or edit trainers", async () => {
+    const db = as("desk-uid");
+    await assertFails(getDoc(doc(db, "trainers/trainer-a")));
+    await assertFails(
+      updateDoc(doc(db, "trainers/desk"), {
+        permissions: permissions({ canEditMembers: true }),
+      })
+    );
+  });
+
+  test("can read members once granted attendance", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(
+        doc(context.firestore(), "trainers/desk"),
+        trainer(GYM_A, { canViewAttendance: true })
+      );
+    });
+    await assertSucceeds(getDoc(doc(as("desk-uid"), "members/member-a")));
+  });
+
+  test("cannot change the member counters", async () => {
+    await assertFails(
+      setDoc(doc(as("desk-uid"), `memberStats/${GYM_A}`), {
+        gymId: GYM_A,
+        total: 1000,
+        active: 1000,
+        unpaid: 0,
+      })
+    );
+  });
+
+  test("can only move a payment's term with payment access", async () => {
+    const grant = (granted) =>
+      testEnv.withSecurityRulesDisabled(async (context) => {
+        await setDoc(
+          doc(context.firestore(), "trainers/desk"),
+          trainer(GYM_A, granted)
+        );
+      });
+    const shift = (changes) =>
+      updateDoc(doc(as("desk-uid"), "payments/payment-a"), changes);
+
+    await grant({ canViewMembers: true, canEditMembers: true });
+    await assertFails(shift({ periodEnd: "2026-11-15" }));
+
+    await grant({
+      canViewMembers: true,
+      canEditMembers: true,
+      canViewPayments: true,
+      canEditPayments: true,
+    });
+    await assertSucceeds(shift({ periodEnd: "2026-11-15" }));
+    await assertFails(shift({ amount: 0 }));
+  });
+
+  test("loses granted access once deactivated", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "trainers/desk"), {
+        ...trainer(GYM_A, { canViewMembers: true }),
+        isActive: false,
+      });
+    });
+    await assertFails(getDoc(doc(as("desk-uid"), "members/member-a")));
+  });
+});
+
+describe("a trainer who manages trainers", () => {
+  const addTrainer = (db, gymId, granted) => {
+    const batch = writeBatch(db);
+    batch.set(doc(db, "trainers/new-trainer"), trainer(gymId, granted));
+    batch.set(doc(db, "users/new-uid"), {
+      id: "new-uid",
+      role: "trainer",
+      gymId,
+      trainerId: "new-trainer",
+    });
+    return batch.commit();
+  };
+
+  test("can add a trainer together with their profile", async () => {
+    await assertSucceeds(addTrainer(as("manager-uid"), GYM_A));
+  });
+
+  test("cannot add a trainer to another gym", async () => {
+    await assertFails(addTrainer(as("manager-uid"), GYM_B));
+  });
+
+  test("cannot add a trainer with permissions they lack", async () => {
+    await assertFails(
+      addTrainer(as("manager-uid"), GYM_A, {
+        canViewPayments: true,
+        canEditPayments: true,
+      })
+    );
+  });
+
+  test("can only grant permissions they hold", async () => {
+    const db = as("manager-uid");
+    await assertSucceeds(
+      updateDoc(doc(db, "trainers/trainer-a"), {
+        permissions: permissions({ canViewTrainers: true }),
+      })
+    );
+    await assertFails(
+      updateDoc(doc(db, "trainers/trainer-a"), {
+        permissions: permissions({
+          canViewTrainers: true,
+          canEditMembers: true,
+        }),
+      })
+    );
+  });
+
+  test("cannot sign in as an existing trainer", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(
+        doc(context.firestore(), "trainers/trainer-a"),
+        trainer(GYM_A, { canEditPayments: true })
+      );
+    });
+    await assertFails(
+      setDoc(doc(as("manager-uid"), "users/new-uid"), {
+        id: "new-uid",
+        role: "trainer",
+        gymId: GYM_A,
+        trainerId: "trainer-a",
+      })
+    );
+  });
+
+  test("can remove a trainer together with their profile", async () => {
+    const db = as("manager-uid");
+    const profiles = await assertSucceeds(
+      getDocs(
+        query(
+          collection(db, "users"),
+          where("gymId", "==", GYM_A),
+          where("role", "==", "trainer"),
+          where("trainerId", "==", "desk")
+        )
+      )
+    );
+    const batch = writeBatch(db);
+    batch.delete(doc(db, "trainers/desk"));
+    profiles.docs.forEach((profile) => batch.delete(profile.ref));
+    await assertSucceeds(batch.commit());
+  });
+
+  test("cannot create a trainer profile without its trainer", async () => {
+    await assertFails(
+      setDoc(doc(as("manager-uid"), "users/new-uid"), {
+        id: "new-uid",
+        role: "trainer",
+        gymId: GYM_A,
+        trainerId: "missing",
+      })
+    );
+  });
+});